@@ -1,83 +1,68 @@
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { Trophy, ShoppingBag, Zap, Wind, Target, Skull, RotateCcw } from 'lucide-react';
-
-// --- TYPES ---
-type GameState = 'title' | 'intro' | 'racing' | 'end' | 'shop' | 'victory' | 'gameover';
-
-interface UpgradeLevels {
-  speed: number;
-  acceleration: number;
-  combat: number;
-}
-
-interface Point {
-  world: { x: number; y: number; z: number };
-  screen: { x: number; y: number; w: number; scale: number };
-}
-
-interface Scenery {
-  type: 'tree' | 'light' | 'sign';
-  side: -1 | 1;
-  offset: number;
-}
-
-class RoadSegment {
-  index: number;
-  p1: Point;
-  p2: Point;
-  curve: number;
-  y: number;
-  color: { road: string; grass: string; rumble: string; lane: string };
-  scenery: Scenery | null;
-
-  constructor(index: number, z: number, y: number, curve: number, segmentLength: number) {
-    this.index = index;
-    this.curve = curve;
-    this.y = y;
-    this.p1 = { world: { x: 0, y: 0, z: z }, screen: { x: 0, y: 0, w: 0, scale: 0 } };
-    this.p2 = { world: { x: 0, y: y, z: z + segmentLength }, screen: { x: 0, y: 0, w: 0, scale: 0 } };
-    
-    const isDark = Math.floor(index / 3) % 2 === 0;
-    this.color = {
-      road: isDark ? '#2a2a2a' : '#333333',
-      grass: isDark ? '#0a8a0a' : '#10AA10',
-      rumble: isDark ? '#444' : '#eee',
-      lane: '#aaa'
-    };
-
-    // Randomly add scenery
-    this.scenery = null;
-    if (index % 15 === 0) {
-      this.scenery = {
-        type: index % 30 === 0 ? 'light' : 'tree',
-        side: Math.random() > 0.5 ? 1 : -1,
-        offset: 1.5 + Math.random() * 0.5
-      };
-    }
-  }
-}
+import { Trophy, ShoppingBag, Zap, Wind, Target, Disc, Shield, Flame, Wrench, Skull, RotateCcw, Play, Pause, Download, Upload, Film, Newspaper, Loader2, Save } from 'lucide-react';
+import { GamePhase, RaceInput, RaceMode, RaceSimulation, Relations, RoadPoint, Stage, TrackDefinition, Garage, PartSlot, BackdropLayer, SceneryObject } from './types';
+import { createDecisionScheduler } from './services/rivalDirector';
+import { DECISION_BACKEND, createDecisionEngine } from './services/decisionEngine';
+import { fetchRaceRecap } from './services/raceRecap';
+import RecapFeed from './components/RecapFeed';
+import TrackEditor from './components/TrackEditor';
+import { POTHOLE_BOUNCE } from './game/hazards';
+import { NITRO_BOOST } from './game/nitro';
+import { WEATHER, WeatherProfile, hazeColor } from './game/weather';
+import { DEFAULT_BACKDROP, PARALLAX, SCENERY_SPECS } from './game/scenery';
+import { BIKES, PAINT_COST, PARTS, PART_SLOTS, bikeById, bikeStats, buyItem, conditionOf, describeMods, fitItem, inUse, owns, repairBike, repairBill, resaleValue, sellItem, wearBike } from './game/garage';
+import { areAllied } from './game/alliances';
+import { RadioFeed, createRadioFeed, updateRadioFeed } from './game/radio';
+import { GhostRecorder, GhostRun, createGhostRecorder, ghostAt, ghostSplit, loadGhost, saveGhostIfBest, timeTrialSeed } from './game/ghost';
+import { FIXED_DT } from './game/headless';
+import { RecapEntry, loadRecapHistory, saveRecap } from './game/recapHistory';
+import { LAY_LOW_COOLING, LAY_LOW_COST } from './game/heat';
+import { REPLAY_SPEEDS, ReplayFile, ReplayPlayback, ReplayRecorder, createPlayback, createRecorder, parseReplay, serializeReplay } from './game/replay';
+import { CareerSnapshot, NEW_CAREER, PRIZES, RACER_NAMES, RIVALS, applyEngineDecision, buildDecisionRequest, createRace, stepRace } from './game/simulation';
+import { FEUD_GRUDGE, carryRelations } from './game/relationships';
+import { randomSeed } from './game/rng';
+import { CareerSave, createSave, latestSave, listSaves, loadSave, parseSave, serializeSave, writeSave } from './game/saves';
+import { STAGES } from './game/stages';
+import { formatTime, raceResults } from './game/timing';
+import { DRAW_DISTANCE, SEGMENT_LENGTH, bendAt, elevationAt, wrap } from './game/track';
+import { loadDraft, newTrack, saveDraft } from './game/trackEditor';
+import { loadStage, validateTrack } from './game/trackLoader';
+import { WIPEOUT_TIME, repairCost } from './game/wipeout';
 
 // --- CONSTANTS ---
 const CANVAS_WIDTH = 1024;
 const CANVAS_HEIGHT = 768;
 const ROAD_WIDTH = 2000;
-const SEGMENT_LENGTH = 200;
 const FIELD_OF_VIEW = 100;
+// Extra field of view at a full nitro boost, stretching the road out, and the streaks drawn over it.
+const BOOST_FOV = 25;
+const SPEED_LINES = 28;
 const CAMERA_HEIGHT = 1200;
-const DRAW_DISTANCE = 300;
-
-const STAGES = [
-  { name: 'DESERT HIGHWAY', length: 30000, traffic: 0.02, color: '#e2711d' },
-  { name: 'NEON CITY', length: 45000, traffic: 0.05, color: '#1a1a2e' },
-  { name: 'MOUNTAIN PASS', length: 60000, traffic: 0.03, color: '#1a4d6d' },
-  { name: 'COASTAL RUN', length: 80000, traffic: 0.06, color: '#0077be' },
-  { name: 'WASTELAND ROAD', length: 100000, traffic: 0.08, color: '#4a3728' }
-];
+// Streaks of rain or blown sand on screen at once.
+const RAIN_DROPS = 140;
+const SAND_STREAKS = 90;
+// Backdrop layers repeat every this many pixels, and move this far (at a parallax of 1) per
+// unit of bend in the road and per unit of height it climbs.
+const BACKDROP_WIDTH = CANVAS_WIDTH;
+const BEND_SHIFT = 6;
+const HILL_SHIFT = 0.03;
+// The editor preview always shows the same traffic, so edits don't reshuffle it.
+const PREVIEW_SEED = 1;
+// Rivals chat back from the local line bank only when no AI is writing their lines.
+const RADIO_CHATTER = DECISION_BACKEND === 'local';
+// Where a streetlight's lamp hangs, from the foot of its pole: out over the road, on the end of its arm.
+const lampOffset = (size: number, side: number) => ({ x: -side * 0.25 * size, y: -SCENERY_SPECS.streetlight.height * size });
+const SLOT_ICONS: Record<PartSlot, React.ReactNode> = {
+  engine: <Zap className="w-5 h-5" />,
+  tires: <Wind className="w-5 h-5" />,
+  brakes: <Disc className="w-5 h-5" />,
+  armor: <Shield className="w-5 h-5" />,
+  nitro: <Flame className="w-5 h-5" />,
+  weapon: <Target className="w-5 h-5" />
+};
 
 // --- UTILS ---
-const wrap = (i: number, max: number) => ((i % max) + max) % max;
-
 function lightenColor(color: string, percent: number) {
   const num = parseInt(color.replace("#", ""), 16);
   const amt = Math.round(2.55 * percent);
@@ -87,6 +72,59 @@ function lightenColor(color: string, percent: number) {
   return "#" + (0x1000000 + R * 0x10000 + G * 0x100 + B).toString(16).slice(1);
 }
 
+// Hands `text` to the browser as a file download.
+const downloadJson = (name: string, text: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Breaks `text` into at most `maxLines` lines of `width` pixels, cutting the last one short if it runs over.
+const fitLines = (ctx: CanvasRenderingContext2D, text: string, width: number, maxLines: number) => {
+  const lines: string[] = [];
+  text.split(' ').forEach(word => {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && ctx.measureText(`${last} ${word}`).width <= width) lines[lines.length - 1] = `${last} ${word}`;
+    else lines.push(word);
+  });
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  while (kept[maxLines - 1].length && ctx.measureText(`${kept[maxLines - 1]}…`).width > width) kept[maxLines - 1] = kept[maxLines - 1].slice(0, -1);
+  kept[maxLines - 1] += '…';
+  return kept;
+};
+
+// 0..1..0 over a pothole bounce, for lifting the bike off the road.
+const bounceLift = (bounce = 0) => bounce > 0 ? Math.sin((1 - bounce / POTHOLE_BOUNCE) * Math.PI) : 0;
+
+// Held keys map straight onto controls; B, C, Y, N and Shift are consumed so one press is one action.
+const readInput = (keys: Record<string, boolean>): RaceInput => {
+  const input: RaceInput = {
+    accelerate: !!(keys['arrowup'] || keys['w']),
+    brake: !!(keys['arrowdown'] || keys['s']),
+    left: !!(keys['arrowleft'] || keys['a']),
+    right: !!(keys['arrowright'] || keys['d']),
+    punchLeft: !!keys['z'],
+    punchRight: !!keys['x'],
+    postBounty: !!keys['b'],
+    acceptBounty: !!keys['c'],
+    kick: !!keys['v'],
+    block: !!keys['shift'],
+    ally: !!keys['y'],
+    refuse: !!keys['n'],
+    nitro: !!keys[' ']
+  };
+  keys['b'] = false;
+  keys['c'] = false;
+  keys['y'] = false;
+  keys['n'] = false;
+  keys['shift'] = false;
+  return input;
+};
+
 // --- OVERLAYS ---
 const ScreenOverlay: React.FC<{ children: React.ReactNode; zIndex?: string }> = ({ children, zIndex = "z-50" }) => (
   <div className={`absolute inset-0 bg-black/80 flex flex-col items-center justify-center text-white ${zIndex} p-6 text-center font-orbitron backdrop-blur-sm`}>
@@ -97,38 +135,66 @@ const ScreenOverlay: React.FC<{ children: React.ReactNode; zIndex?: string }> =
 // --- MAIN APP ---
 export default function App() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [gameState, setGameState] = useState<GameState>('title');
+  const [gameState, setGameState] = useState<GamePhase>('title');
   const [currentStage, setCurrentStage] = useState(0);
-  const [money, setMoney] = useState(500);
-  const [score, setScore] = useState(0);
-  const [upgrades, setUpgrades] = useState<UpgradeLevels>({ speed: 1, acceleration: 1, combat: 1 });
-  
-  const segmentsRef = useRef<RoadSegment[]>([]);
-  const cameraZRef = useRef(0);
-  const playerRef = useRef({
-    x: 0,
-    z: 0,
-    speed: 0,
-    maxSpeed: 200,
-    accel: 15,
-    health: 100,
-    lean: 0,
-    attackType: 'normal',
-    attackTime: 0,
-    finishPos: 0
-  });
-  
+  const [money, setMoney] = useState(NEW_CAREER.money);
+  const [score, setScore] = useState(NEW_CAREER.score);
+  const [garage, setGarage] = useState<Garage>(NEW_CAREER.garage);
+  const [heat, setHeat] = useState(NEW_CAREER.heat);
+  const [wrecks, setWrecks] = useState(NEW_CAREER.wrecks);
+  const [relations, setRelations] = useState<Record<string, Relations>>(NEW_CAREER.relations);
+  // The slot the career in play autosaves to, and the slot list as shown on the saves screen.
+  const [saveSlot, setSaveSlot] = useState<number | null>(null);
+  const [saves, setSaves] = useState<(CareerSave | null)[]>([]);
+  const [savesMode, setSavesMode] = useState<'new' | 'load'>('load');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const saveImportRef = useRef<HTMLInputElement>(null);
+  const importSlotRef = useRef(0);
+
+  const simRef = useRef<RaceSimulation | null>(null);
   const keysRef = useRef<Record<string, boolean>>({});
-  const opponentsRef = useRef<any[]>([]);
-  const trafficRef = useRef<any[]>([]);
-  const particlesRef = useRef<any[]>([]);
+  const rushRef = useRef(0);
+  // Darkness with the lights cut out of it, laid over the world on stages that aren't in daylight
+  const lightRef = useRef<HTMLCanvasElement | null>(null);
   const lastTimeRef = useRef(0);
+  const schedulerRef = useRef(createDecisionScheduler(createDecisionEngine()));
+  const accumulatorRef = useRef(0);
+  const recorderRef = useRef<ReplayRecorder | null>(null);
+  const playbackRef = useRef<ReplayPlayback | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+  // Where to go when the viewer closes: back to whichever end screen opened it.
+  const replayExitRef = useRef<GamePhase>('raceEnd');
+
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayPaused, setReplayPaused] = useState(false);
+  const [replayTick, setReplayTick] = useState(0);
+  const [replayError, setReplayError] = useState<string | null>(null);
+
+  // After Action Reports: the one for the race just run, and any picked from the history.
+  const [latestRecap, setLatestRecap] = useState<RecapEntry | null>(null);
+  const [pickedRecap, setPickedRecap] = useState<RecapEntry | null>(null);
+  const recapExitRef = useRef<GamePhase>('raceEnd');
+
+  // Time trial: the stored best being raced, and the attempt being recorded against it.
+  const ghostRef = useRef<GhostRun | null>(null);
+  const ghostRecorderRef = useRef<GhostRecorder | null>(null);
+  const [trialResult, setTrialResult] = useState<{ time: number; best: number | null; record: boolean } | null>(null);
+
+  // Track editor: the track being edited, the race drawn as its preview, and how the last test drive went.
+  const [editorTrack, setEditorTrack] = useState<TrackDefinition | null>(null);
+  const [previewSegment, setPreviewSegment] = useState(0);
+  const [testDriveNotice, setTestDriveNotice] = useState<string | null>(null);
+  const previewRef = useRef<RaceSimulation | null>(null);
+  const radioRef = useRef<RadioFeed>(createRadioFeed());
 
   // --- RENDERING HELPERS ---
 
-  const drawScenery = useCallback((ctx: CanvasRenderingContext2D, x: number, y: number, scale: number, type: string, side: number) => {
-    const w = 200 * scale;
-    const h = 400 * scale;
+  // `size` is a road width in pixels where the object stands, so it shrinks into the distance with the road
+  const drawScenery = useCallback((ctx: CanvasRenderingContext2D, x: number, y: number, size: number, type: SceneryObject['type'], side: number, color?: string) => {
+    const spec = SCENERY_SPECS[type];
+    const w = spec.width * size;
+    const h = spec.height * size;
+    const paint = color ?? spec.color;
     ctx.save();
     ctx.translate(x, y);
     
@@ -136,27 +202,98 @@ export default function App() {
       // Trunk
       ctx.fillStyle = '#5d4037';
       ctx.fillRect(-w * 0.1, -h * 0.2, w * 0.2, h * 0.2);
-      // Leaves
-      ctx.fillStyle = '#2e7d32';
-      ctx.beginPath();
-      ctx.moveTo(0, -h);
-      ctx.lineTo(-w * 0.6, -h * 0.2);
-      ctx.lineTo(w * 0.6, -h * 0.2);
-      ctx.closePath();
-      ctx.fill();
-    } else if (type === 'light') {
-      ctx.fillStyle = '#444';
-      ctx.fillRect(-w * 0.05, -h, w * 0.1, h);
+      // Leaves, in two tiers
+      ctx.fillStyle = paint;
+      [[-h * 0.15, -h * 0.7, 0.5], [-h * 0.45, -h, 0.38]].forEach(([base, top, spread]) => {
+        ctx.beginPath();
+        ctx.moveTo(0, top);
+        ctx.lineTo(-w * spread * 2, base);
+        ctx.lineTo(w * spread * 2, base);
+        ctx.closePath();
+        ctx.fill();
+      });
+    } else if (type === 'streetlight') {
+      // Pole, and an arm out over the road to the lamp
+      const lamp = lampOffset(size, side);
+      ctx.fillStyle = paint;
+      ctx.fillRect(-w / 2, -h, w, h);
+      ctx.fillRect(Math.min(0, lamp.x), -h, Math.abs(lamp.x), w * 0.6);
       ctx.fillStyle = '#ffd600';
       ctx.beginPath();
-      ctx.arc(side * w * 0.2, -h, w * 0.1, 0, Math.PI * 2);
+      ctx.arc(lamp.x, lamp.y + w * 0.6, w * 0.9, 0, Math.PI * 2);
       ctx.fill();
+    } else if (type === 'billboard') {
+      // Two legs under a board with something that passes for an advert on it
+      ctx.fillStyle = '#555';
+      ctx.fillRect(-w * 0.35, -h * 0.5, w * 0.05, h * 0.5);
+      ctx.fillRect(w * 0.3, -h * 0.5, w * 0.05, h * 0.5);
+      ctx.fillStyle = '#111';
+      ctx.fillRect(-w / 2, -h, w, h * 0.55);
+      ctx.fillStyle = paint;
+      ctx.fillRect(-w * 0.46, -h * 0.96, w * 0.92, h * 0.47);
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+      ctx.fillRect(-w * 0.38, -h * 0.86, w * 0.5, h * 0.08);
+      ctx.fillRect(-w * 0.38, -h * 0.72, w * 0.3, h * 0.06);
+    } else if (type === 'building') {
+      ctx.fillStyle = paint;
+      ctx.fillRect(-w / 2, -h, w, h);
+      // Windows, once there are pixels enough to show them; the same ones are always lit
+      if (w > 40) {
+        const cols = 5, rows = 9;
+        for (let i = 0; i < cols; i++) {
+          for (let j = 0; j < rows; j++) {
+            ctx.fillStyle = (i * 7 + j * 13) % 5 < 2 ? '#ffd54f' : 'rgba(0, 0, 0, 0.35)';
+            ctx.fillRect(-w / 2 + w * (i + 0.25) / cols, -h + h * (j + 0.3) / rows, w * 0.5 / cols, h * 0.45 / rows);
+          }
+        }
+      }
     }
     
     ctx.restore();
   }, []);
 
-  const drawDetailedBike = useCallback((ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, color: string, type: string, leanAngle = 0) => {
+  // One layer of the horizon, repeating every BACKDROP_WIDTH pixels: slid across by `shift` as the
+  // road bends, and down by `drop` as it climbs
+  const drawBackdrop = useCallback((ctx: CanvasRenderingContext2D, layer: BackdropLayer, shift: number, drop: number, weather: WeatherProfile) => {
+    const horizon = CANVAS_HEIGHT * 0.5 + drop;
+    const left = wrap(shift, BACKDROP_WIDTH) - BACKDROP_WIDTH;
+    const tint = (color: string) => weather.haze ? hazeColor(color, weather.haze, 0.5) : color;
+
+    if (layer === 'mountains') {
+      ctx.fillStyle = weather.mountains;
+      ctx.beginPath(); ctx.moveTo(left, horizon);
+      for (let x = 0; x <= BACKDROP_WIDTH * 2; x += 16) {
+        // Whole numbers of waves per width, so the ridge joins up with the next copy of itself
+        const t = (x / BACKDROP_WIDTH) * Math.PI * 2;
+        ctx.lineTo(left + x, horizon - 70 - 50 * Math.sin(t * 2) - 30 * Math.sin(t * 5 + 1) - 12 * Math.sin(t * 13));
+      }
+      ctx.lineTo(left + BACKDROP_WIDTH * 2, horizon); ctx.fill();
+    } else if (layer === 'city') {
+      // Towers of made-up but unchanging heights, with a few windows lit after dark
+      const towers = 24, span = BACKDROP_WIDTH / towers;
+      for (let k = 0; k < towers * 2; k++) {
+        const rand = (n: number) => Math.abs(Math.sin((k % towers) * 12.9898 + n * 78.233) * 43758.5453) % 1;
+        const x = left + k * span, h = 40 + rand(1) * 140, w = span * (0.7 + rand(2) * 0.3);
+        ctx.fillStyle = tint('#1b1b2f');
+        ctx.fillRect(x, horizon - h, w, h);
+        if (weather.darkness < 0.3) continue;
+        ctx.fillStyle = '#ffd54f';
+        for (let i = 0; i < 6; i++) ctx.fillRect(x + 4 + rand(i + 3) * (w - 10), horizon - h + 6 + rand(i + 9) * (h - 12), 3, 4);
+      }
+    } else {
+      // Open water out to the horizon, with the light glinting off it
+      const sea = ctx.createLinearGradient(0, horizon - 8, 0, CANVAS_HEIGHT);
+      sea.addColorStop(0, tint('#1f6f99')); sea.addColorStop(1, tint('#0a2f4a'));
+      ctx.fillStyle = sea; ctx.fillRect(0, horizon - 8, CANVAS_WIDTH, CANVAS_HEIGHT - horizon + 8);
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.25)';
+      for (let k = 0; k < 40; k++) {
+        const x = left + ((k * 0.618) % 1) * BACKDROP_WIDTH * 2, y = horizon - 4 + ((k * 0.377) % 1) * 60;
+        ctx.fillRect(x, y, 10 + (k % 4) * 6, 1);
+      }
+    }
+  }, []);
+
+  const drawDetailedBike = useCallback((ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, color: string, type: string, leanAngle = 0, weapon?: string) => {
     ctx.save();
     ctx.translate(x, y);
     ctx.rotate(leanAngle * 0.2);
@@ -216,244 +353,508 @@ export default function App() {
     ctx.fillStyle = '#111'; // Visor
     ctx.fillRect(-w * 0.1, -h * 0.95, w * 0.2, h * 0.08);
 
-    // Combat Anim
-    if (type === 'punchLeft') {
-      ctx.strokeStyle = '#f1c40f'; ctx.lineWidth = 6; ctx.lineCap = 'round';
-      ctx.beginPath(); ctx.moveTo(-w * 0.1, -h * 0.7); ctx.lineTo(-w * 0.6, -h * 0.65); ctx.stroke();
-    } else if (type === 'punchRight') {
+    // Weapon held at (fx, fy), pointing along (dx, dy)
+    const drawWeapon = (fx: number, fy: number, dx: number, dy: number) => {
+      if (weapon === 'club') {
+        ctx.strokeStyle = '#8d5524'; ctx.lineWidth = Math.max(3, w * 0.07); ctx.lineCap = 'round';
+        ctx.beginPath(); ctx.moveTo(fx, fy); ctx.lineTo(fx + dx * w * 0.35, fy + dy * w * 0.35); ctx.stroke();
+      } else if (weapon === 'chain') {
+        ctx.strokeStyle = '#bdc3c7'; ctx.lineWidth = Math.max(1, w * 0.02);
+        for (let i = 1; i <= 6; i++) {
+          ctx.beginPath(); ctx.arc(fx + dx * w * 0.07 * i, fy + dy * w * 0.07 * i, w * 0.03, 0, Math.PI * 2); ctx.stroke();
+        }
+      }
+    };
+
+    // Combat Anim (wind-ups glow red, so a rival's swing can be seen coming)
+    const side = type === 'punchLeft' || type === 'windupLeft' ? -1 : (type === 'punchRight' || type === 'windupRight' ? 1 : 0);
+    const windup = type === 'windupLeft' || type === 'windupRight';
+    if (side) {
+      const fx = side * w * (windup ? 0.3 : 0.6), fy = -h * (windup ? 1.05 : 0.65);
       ctx.strokeStyle = '#f1c40f'; ctx.lineWidth = 6; ctx.lineCap = 'round';
-      ctx.beginPath(); ctx.moveTo(w * 0.1, -h * 0.7); ctx.lineTo(w * 0.6, -h * 0.65); ctx.stroke();
+      ctx.beginPath(); ctx.moveTo(side * w * 0.1, -h * 0.7); ctx.lineTo(fx, fy); ctx.stroke();
+      if (windup) {
+        drawWeapon(fx, fy, -side * 0.5, -0.8);
+        ctx.fillStyle = 'rgba(231, 76, 60, 0.45)';
+        ctx.beginPath(); ctx.arc(fx, fy, w * 0.14, 0, Math.PI * 2); ctx.fill();
+      } else {
+        drawWeapon(fx, fy, side, 0.1);
+      }
+    } else if (type === 'kick') {
+      ctx.strokeStyle = '#f1c40f'; ctx.lineWidth = 8; ctx.lineCap = 'round';
+      ctx.beginPath(); ctx.moveTo(-w * 0.1, -h * 0.45); ctx.lineTo(-w * 0.65, -h * 0.35); ctx.stroke();
+      ctx.beginPath(); ctx.moveTo(w * 0.1, -h * 0.45); ctx.lineTo(w * 0.65, -h * 0.35); ctx.stroke();
+    } else if (type === 'block') {
+      ctx.strokeStyle = '#00ffff'; ctx.lineWidth = 8; ctx.lineCap = 'round';
+      ctx.beginPath(); ctx.moveTo(-w * 0.25, -h * 0.72); ctx.lineTo(w * 0.25, -h * 0.72); ctx.stroke();
+      ctx.strokeStyle = 'rgba(0, 255, 255, 0.4)'; ctx.lineWidth = 3;
+      ctx.beginPath(); ctx.arc(0, -h * 0.75, w * 0.45, Math.PI * 1.1, Math.PI * 1.9); ctx.stroke();
+    } else {
+      drawWeapon(w * 0.2, -h * 0.6, 0.3, 1);
     }
-    
+
+
     ctx.restore();
   }, []);
 
-  const drawDetailedCar = useCallback((ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, color: string, type: string) => {
+  // A bike down in the road: it slides over onto its side while the rider is thrown clear,
+  // arms and legs flailing, and lands in a heap. `progress` runs 0..1 over the wipeout.
+  const drawWipeout = useCallback((ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, color: string, progress: number, side: number) => {
+    const w = width;
+    const h = height;
+    const fall = Math.min(1, progress * 3);
+    const flight = Math.min(1, progress * 2);
+
+    // Bike, skidding over onto its side
+    ctx.save();
+    ctx.translate(x + side * w * 0.4 * flight, y);
+    ctx.rotate(side * fall * Math.PI / 2);
+    ctx.fillStyle = '#111';
+    ctx.beginPath(); ctx.ellipse(-w * 0.25, -h * 0.12, w * 0.15, h * 0.15, 0, 0, Math.PI * 2); ctx.fill();
+    ctx.beginPath(); ctx.ellipse(w * 0.25, -h * 0.12, w * 0.15, h * 0.15, 0, 0, Math.PI * 2); ctx.fill();
+    ctx.fillStyle = '#222';
+    ctx.fillRect(-w * 0.35, -h * 0.4, w * 0.7, h * 0.3);
+    ctx.fillStyle = color;
+    ctx.fillRect(-w * 0.4, -h * 0.6, w * 0.9, h * 0.2);
+    ctx.restore();
+
+    // Rider, thrown in an arc and spinning until they hit the ground
+    ctx.save();
+    ctx.translate(x + side * w * (0.3 + 1.1 * flight), y - h * (0.5 + 0.9 * Math.sin(flight * Math.PI)) * (1 - flight * 0.6));
+    ctx.rotate(side * (flight < 1 ? flight * Math.PI * 3 : Math.PI / 2));
+    const flail = flight < 1 ? Math.sin(progress * 40) * 0.8 : 0.2;
+    ctx.strokeStyle = '#111'; ctx.lineWidth = Math.max(2, w * 0.06); ctx.lineCap = 'round';
+    ctx.beginPath(); ctx.moveTo(0, -h * 0.15); ctx.lineTo(0, h * 0.15); ctx.stroke();
+    [-1, 1].forEach(limb => {
+      ctx.beginPath(); ctx.moveTo(0, -h * 0.1); ctx.lineTo(limb * w * 0.2, -h * (0.1 + flail * limb * 0.15)); ctx.stroke();
+      ctx.beginPath(); ctx.moveTo(0, h * 0.15); ctx.lineTo(limb * w * 0.12, h * (0.35 - flail * limb * 0.1)); ctx.stroke();
+    });
+    ctx.fillStyle = lightenColor(color, 20);
+    ctx.beginPath(); ctx.arc(0, -h * 0.25, w * 0.12, 0, Math.PI * 2); ctx.fill();
+    ctx.restore();
+  }, []);
+
+  // Seen from behind, or from the front when it is oncoming. `signal` (-1 / 1, toward screen
+  // left / right) flashes one indicator, `hazards` both.
+  const drawDetailedCar = useCallback((ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, color: string, type: string, signal = 0, hazards = false, oncoming = false) => {
     ctx.save();
     ctx.translate(x, y);
     const w = width; const h = height;
     ctx.fillStyle = 'rgba(0, 0, 0, 0.4)';
     ctx.fillRect(-w * 0.5, h * 0.05, w, h * 0.1);
     
-    ctx.fillStyle = color;
-    ctx.fillRect(-w * 0.45, -h * 0.5, w * 0.9, h * 0.4);
-    ctx.fillStyle = lightenColor(color, 20);
-    ctx.fillRect(-w * 0.4, -h * 0.8, w * 0.8, h * 0.4);
-    
-    // Windows
-    ctx.fillStyle = '#1a3a5a';
-    ctx.fillRect(-w * 0.35, -h * 0.75, w * 0.7, h * 0.2);
+    if (type === 'truck') {
+      // Cab below, box trailer towering over it
+      ctx.fillStyle = color;
+      ctx.fillRect(-w * 0.45, -h * 0.5, w * 0.9, h * 0.4);
+      ctx.fillStyle = lightenColor(color, 30);
+      ctx.fillRect(-w * 0.48, -h * 1.4, w * 0.96, h * 0.95);
+      ctx.strokeStyle = 'rgba(0,0,0,0.3)'; ctx.lineWidth = 2;
+      ctx.beginPath(); ctx.moveTo(0, -h * 1.4); ctx.lineTo(0, -h * 0.45); ctx.stroke();
+      if (oncoming) {
+        ctx.fillStyle = '#1a3a5a';
+        ctx.fillRect(-w * 0.35, -h * 0.9, w * 0.7, h * 0.3);
+      }
+    } else {
+      const low = type === 'sports' ? 0.75 : 1;
+      ctx.fillStyle = color;
+      ctx.fillRect(-w * 0.45, -h * 0.5 * low, w * 0.9, h * 0.4 * low);
+      ctx.fillStyle = lightenColor(color, 20);
+      ctx.fillRect(-w * 0.4, -h * 0.8 * low, w * 0.8, h * 0.4 * low);
+
+      // Windows
+      ctx.fillStyle = '#1a3a5a';
+      ctx.fillRect(-w * 0.35, -h * 0.75 * low, w * 0.7, h * (oncoming ? 0.28 : 0.2) * low);
+
+      // Spoiler
+      if (type === 'sports' && !oncoming) {
+        ctx.fillStyle = '#111';
+        ctx.fillRect(-w * 0.45, -h * 0.7, w * 0.9, h * 0.06);
+      }
+    }
     
-    // Tail lights
-    ctx.fillStyle = '#c0392b';
+    // Tail lights, or headlights coming the other way
+    ctx.fillStyle = oncoming ? '#fff8dc' : '#c0392b';
     ctx.fillRect(-w * 0.4, -h * 0.45, w * 0.15, h * 0.1);
     ctx.fillRect(w * 0.25, -h * 0.45, w * 0.15, h * 0.1);
+
+    // Indicators
+    if ((signal || hazards) && Math.floor(performance.now() / 250) % 2 === 0) {
+      ctx.fillStyle = '#f39c12';
+      if (signal < 0 || hazards) ctx.fillRect(-w * 0.48, -h * 0.47, w * 0.08, h * 0.14);
+      if (signal > 0 || hazards) ctx.fillRect(w * 0.4, -h * 0.47, w * 0.08, h * 0.14);
+    }
+
+    // Light bar
+    if (type === 'police') {
+      const flash = Math.floor(performance.now() / 150) % 2 === 0;
+      ctx.fillStyle = flash ? '#e74c3c' : '#2980b9';
+      ctx.fillRect(-w * 0.3, -h * 0.9, w * 0.3, h * 0.1);
+      ctx.fillStyle = flash ? '#2980b9' : '#e74c3c';
+      ctx.fillRect(0, -h * 0.9, w * 0.3, h * 0.1);
+    }
     
     ctx.restore();
   }, []);
 
-  const createParticle = useCallback((x: number, z: number, type: 'smoke' | 'spark' | 'dust') => {
-    const p = {
-      x, z,
-      vx: (Math.random() - 0.5) * 0.1,
-      vz: type === 'smoke' ? -0.2 : 0,
-      life: 1.0,
-      size: type === 'smoke' ? 10 : 5,
-      color: type === 'smoke' ? 'rgba(100,100,100,0.5)' : (type === 'spark' ? '#f39c12' : '#8d6e63'),
-      type
-    };
-    particlesRef.current.push(p);
+  const drawHazard = useCallback((ctx: CanvasRenderingContext2D, x: number, y: number, w: number, type: string) => {
+    ctx.save();
+    ctx.translate(x, y);
+    if (type === 'oil') {
+      ctx.fillStyle = 'rgba(10, 10, 20, 0.85)';
+      ctx.beginPath(); ctx.ellipse(0, 0, w * 0.7, w * 0.12, 0, 0, Math.PI * 2); ctx.fill();
+      // Sheen
+      ctx.strokeStyle = 'rgba(155, 89, 182, 0.6)'; ctx.lineWidth = Math.max(1, w * 0.03);
+      ctx.beginPath(); ctx.ellipse(-w * 0.15, -w * 0.02, w * 0.3, w * 0.04, 0, 0, Math.PI * 2); ctx.stroke();
+    } else if (type === 'rock') {
+      ctx.fillStyle = '#6d6d6d';
+      ctx.beginPath();
+      ctx.moveTo(-w * 0.35, 0); ctx.lineTo(-w * 0.25, -w * 0.3); ctx.lineTo(w * 0.05, -w * 0.4);
+      ctx.lineTo(w * 0.3, -w * 0.22); ctx.lineTo(w * 0.35, 0);
+      ctx.closePath(); ctx.fill();
+      ctx.fillStyle = '#8e8e8e';
+      ctx.beginPath(); ctx.moveTo(-w * 0.2, -w * 0.28); ctx.lineTo(w * 0.05, -w * 0.38); ctx.lineTo(w * 0.1, -w * 0.2); ctx.closePath(); ctx.fill();
+    } else if (type === 'cone') {
+      ctx.fillStyle = '#e67e22';
+      ctx.beginPath(); ctx.moveTo(-w * 0.15, 0); ctx.lineTo(0, -w * 0.45); ctx.lineTo(w * 0.15, 0); ctx.closePath(); ctx.fill();
+      ctx.fillStyle = '#fff';
+      ctx.fillRect(-w * 0.09, -w * 0.22, w * 0.18, w * 0.06);
+      ctx.fillStyle = '#d35400';
+      ctx.fillRect(-w * 0.2, -w * 0.03, w * 0.4, w * 0.03);
+    } else if (type === 'pothole') {
+      ctx.fillStyle = '#555';
+      ctx.beginPath(); ctx.ellipse(0, 0, w * 0.4, w * 0.1, 0, 0, Math.PI * 2); ctx.fill();
+      ctx.fillStyle = '#0d0d0d';
+      ctx.beginPath(); ctx.ellipse(0, w * 0.01, w * 0.32, w * 0.07, 0, 0, Math.PI * 2); ctx.fill();
+    }
+    ctx.restore();
   }, []);
 
-  const checkCombat = useCallback((type: string) => {
-    const p = playerRef.current;
-    const combatBoost = upgrades.combat;
-    opponentsRef.current.forEach(o => {
-      if (o.state !== 'racing') return;
-      if (Math.abs(o.z - p.z) < 250) {
-        const dx = o.x - p.x;
-        const isHit = (type === 'punchLeft' && dx < -0.1 && dx > -0.7) ||
-                      (type === 'punchRight' && dx > 0.1 && dx < 0.7) ||
-                      (type === 'kick' && Math.abs(dx) < 0.6);
-        if (isHit) {
-          o.health -= 25 * combatBoost;
-          setScore(s => s + 200);
-          for (let i = 0; i < 10; i++) createParticle(o.x, o.z, 'spark');
-          if (o.health <= 0) {
-            o.state = 'down';
-            o.stateTimer = 3;
-            setScore(s => s + 1000);
-          }
-        }
+  const drawPickup = useCallback((ctx: CanvasRenderingContext2D, x: number, y: number, w: number, type: string) => {
+    ctx.save();
+    ctx.translate(x, y);
+    const pulse = 0.6 + 0.4 * Math.sin(performance.now() / 200);
+    ctx.strokeStyle = `rgba(0, 255, 255, ${pulse})`; ctx.lineWidth = Math.max(1, w * 0.04);
+    ctx.beginPath(); ctx.ellipse(0, 0, w * 0.35, w * 0.1, 0, 0, Math.PI * 2); ctx.stroke();
+    if (type === 'nitro') {
+      ctx.fillStyle = '#3498db'; ctx.fillRect(-w * 0.07, -w * 0.45, w * 0.14, w * 0.35);
+      ctx.fillStyle = '#ecf0f1'; ctx.fillRect(-w * 0.04, -w * 0.52, w * 0.08, w * 0.07);
+    } else if (type === 'club') {
+      ctx.strokeStyle = '#8d5524'; ctx.lineWidth = Math.max(2, w * 0.08); ctx.lineCap = 'round';
+      ctx.beginPath(); ctx.moveTo(-w * 0.2, -w * 0.1); ctx.lineTo(w * 0.2, -w * 0.4); ctx.stroke();
+    } else {
+      ctx.strokeStyle = '#bdc3c7'; ctx.lineWidth = Math.max(1, w * 0.03);
+      for (let i = 0; i < 5; i++) {
+        ctx.beginPath(); ctx.arc(-w * 0.2 + i * w * 0.1, -w * 0.2 - Math.sin(i) * w * 0.08, w * 0.05, 0, Math.PI * 2); ctx.stroke();
       }
-    });
-  }, [upgrades.combat, createParticle]);
+    }
+    ctx.restore();
+  }, []);
 
-  const initRace = useCallback(() => {
-    const stage = STAGES[currentStage];
-    const newSegments: RoadSegment[] = [];
-    let curY = 0, curCurve = 0;
-    
-    for (let i = 0; i < (stage.length / SEGMENT_LENGTH) + DRAW_DISTANCE; i++) {
-      if (i > 100 && i % 250 === 0) {
-        curCurve = (Math.random() - 0.5) * 5;
-        curY = (Math.random() - 0.5) * 2000;
-      }
-      const curve = (i < 100) ? 0 : Math.sin(i / 50) * curCurve;
-      const y = (i < 50) ? 0 : Math.cos(i / 100) * curY;
-      newSegments.push(new RoadSegment(i, i * SEGMENT_LENGTH, y, curve, SEGMENT_LENGTH));
+  // Helmet head-shot for the radio feed in the speaker's colours; the police get a light bar.
+  const drawPortrait = useCallback((ctx: CanvasRenderingContext2D, x: number, y: number, size: number, color: string, police = false) => {
+    ctx.fillStyle = '#111'; ctx.fillRect(x, y, size, size);
+    ctx.fillStyle = color; ctx.beginPath(); ctx.arc(x + size / 2, y + size * 0.58, size * 0.36, 0, Math.PI * 2); ctx.fill();
+    ctx.fillStyle = lightenColor(color, 40); ctx.beginPath(); ctx.arc(x + size * 0.42, y + size * 0.45, size * 0.1, 0, Math.PI * 2); ctx.fill();
+    // Visor
+    ctx.fillStyle = 'rgba(0,0,0,0.8)'; ctx.fillRect(x + size * 0.24, y + size * 0.52, size * 0.52, size * 0.14);
+    if (police) {
+      ctx.fillStyle = '#e74c3c'; ctx.fillRect(x + size * 0.2, y + size * 0.08, size * 0.3, size * 0.1);
+      ctx.fillStyle = '#3498db'; ctx.fillRect(x + size * 0.5, y + size * 0.08, size * 0.3, size * 0.1);
     }
-    
-    for (let i = 1; i < newSegments.length; i++) newSegments[i].p1.world.y = newSegments[i-1].p2.world.y;
-    segmentsRef.current = newSegments;
-
-    playerRef.current = {
-      x: 0, z: 0, speed: 0,
-      maxSpeed: 200 + upgrades.speed * 25,
-      accel: 15 + upgrades.acceleration * 5,
-      health: 100, lean: 0, attackType: 'normal', attackTime: 0, finishPos: 0
-    };
+    ctx.strokeStyle = color; ctx.lineWidth = 2; ctx.strokeRect(x, y, size, size);
+  }, []);
+
+  // Files the report for a finished race; it shows up on the end screen once written.
+  const fileRecap = useCallback((sim: RaceSimulation) => {
+    const results = raceResults(sim.timing, RACER_NAMES);
+    setLatestRecap(null);
+    fetchRaceRecap(sim.player, sim.opponents, sim.race, results).then(({ recap, source }) => {
+      const entry: RecapEntry = {
+        id: `${Date.now()}-${sim.seed}`,
+        date: new Date().toISOString(),
+        stageIndex: sim.stageIndex,
+        stageName: STAGES[sim.stageIndex].name,
+        seed: sim.seed,
+        position: sim.player.finishPos,
+        time: results.find(r => r.id === 'player')?.time ?? null,
+        heat: Math.round(sim.race.heatLevel),
+        source,
+        recap
+      };
+      saveRecap(entry);
+      // A slow reply for an earlier race is filed but not shown.
+      if (simRef.current === sim) setLatestRecap(entry);
+    });
+  }, []);
 
-    opponentsRef.current = ['#e74c3c', '#3498db', '#2ecc71', '#f1c40f', '#9b59b6'].map((c, i) => ({
-      id: i, color: c, x: (i % 2 === 0 ? 0.7 : -0.7), z: 2000 + i * 1200,
-      speed: 180 + i * 10, maxSpeed: 190 + i * 10,
-      health: 100, state: 'racing', stateTimer: 0, attackType: 'normal', attackTime: 0
-    }));
-
-    trafficRef.current = Array.from({ length: 100 }).map((_, i) => ({
-      id: i, x: (Math.random() - 0.5) * 1.7,
-      z: 5000 + Math.random() * (stage.length - 10000),
-      speed: 80 + Math.random() * 40,
-      type: Math.random() > 0.8 ? 'truck' : 'sedan',
-      color: '#' + Math.floor(Math.random() * 16777215).toString(16)
-    }));
-
-    cameraZRef.current = 0;
-    particlesRef.current = [];
+  const beginRace = useCallback((stageIndex: number, mode: RaceMode, seed: number, career: CareerSnapshot, stage?: Stage) => {
+    const sim = createRace(stageIndex, career, seed, mode, stage);
+    simRef.current = sim;
+    // A replay names its stage by index, so a test drive on an editor track isn't recorded.
+    recorderRef.current = mode === 'testDrive' ? null : createRecorder(seed, mode, stageIndex, career, FIXED_DT);
+    ghostRef.current = mode === 'timeTrial' ? loadGhost(stageIndex) : null;
+    ghostRecorderRef.current = mode === 'timeTrial' ? createGhostRecorder(stageIndex, seed) : null;
+    ghostRecorderRef.current?.sample(sim);
+    playbackRef.current = null;
+    radioRef.current = createRadioFeed();
+    accumulatorRef.current = 0;
+    schedulerRef.current.reset();
     setGameState('racing');
-  }, [currentStage, upgrades]);
+  }, []);
 
-  const update = useCallback((dt: number) => {
-    const p = playerRef.current;
-    const keys = keysRef.current;
-    const stage = STAGES[currentStage];
-
-    // Physics
-    if (keys['arrowup'] || keys['w']) p.speed = Math.min(p.maxSpeed, p.speed + p.accel * dt);
-    else if (keys['arrowdown'] || keys['s']) p.speed = Math.max(0, p.speed - p.accel * 4 * dt);
-    else p.speed = Math.max(0, p.speed - p.accel * 0.5 * dt);
-
-    if (keys['arrowleft'] || keys['a']) {
-      p.x -= 2.0 * (p.speed / p.maxSpeed) * dt;
-      p.lean = Math.max(-1, p.lean - 6 * dt);
-    } else if (keys['arrowright'] || keys['d']) {
-      p.x += 2.0 * (p.speed / p.maxSpeed) * dt;
-      p.lean = Math.min(1, p.lean + 6 * dt);
-    } else {
-      p.lean *= 0.85;
-    }
+  const initRace = useCallback((stageIndex = currentStage) => {
+    beginRace(stageIndex, 'career', randomSeed(), { money, score, heat, garage, wrecks, wreckLimit: NEW_CAREER.wreckLimit, relations });
+  }, [beginRace, currentStage, money, score, heat, garage, wrecks, relations]);
 
-    p.x = Math.max(-1.9, Math.min(1.9, p.x));
-    const segments = segmentsRef.current;
-    const curIdx = wrap(Math.floor(p.z / SEGMENT_LENGTH), segments.length);
-    const curSeg = segments[curIdx];
-    if (curSeg) p.x -= (p.speed / p.maxSpeed) * curSeg.curve * 0.08;
+  // --- SAVES ---
+  // Picks a career up where `save` left it: in the garage, or on the start line of its stage.
+  const resumeCareer = useCallback((slot: number, save: CareerSave) => {
+    const c = save.career;
+    setMoney(c.money);
+    setScore(c.score);
+    setHeat(c.heat);
+    setGarage(c.garage);
+    setWrecks(c.wrecks);
+    setRelations(c.relations);
+    setCurrentStage(save.stage);
+    setSaveSlot(slot);
+    if (save.resume === 'shop') setGameState('shop');
+    else beginRace(save.stage, 'career', randomSeed(), { ...c, wreckLimit: NEW_CAREER.wreckLimit });
+  }, [beginRace]);
 
-    p.z += p.speed * dt * 100;
-    cameraZRef.current = p.z - 300;
+  const startCareer = useCallback((slot: number) => resumeCareer(slot, createSave(0, 'race', 'active', NEW_CAREER)), [resumeCareer]);
 
-    // Grass effect
-    if (Math.abs(p.x) > 1.0) {
-      p.speed *= 0.98;
-      if (Math.random() > 0.6) createParticle(p.x, p.z, 'dust');
-    }
+  const openSaves = (mode: 'new' | 'load') => {
+    setSaves(listSaves());
+    setSavesMode(mode);
+    setSaveError(null);
+    setGameState('saves');
+  };
 
-    // Particles
-    if (p.speed > 20 && Math.random() > 0.7) createParticle(p.x, p.z, 'smoke');
-    particlesRef.current.forEach(pt => {
-      pt.z += pt.vz * p.speed * dt * 10;
-      pt.x += pt.vx;
-      pt.life -= dt;
-    });
-    particlesRef.current = particlesRef.current.filter(pt => pt.life > 0);
-
-    // Combat
-    if (p.attackTime > 0) p.attackTime -= dt;
-    else {
-      p.attackType = 'normal';
-      if (keys['z']) { p.attackType = 'punchLeft'; p.attackTime = 0.4; checkCombat('punchLeft'); }
-      if (keys['x']) { p.attackType = 'punchRight'; p.attackTime = 0.4; checkCombat('punchRight'); }
+  // A new career goes in the first slot without one in progress; with none free, the player picks what to overwrite.
+  const newCareer = () => {
+    const free = listSaves().findIndex(save => save?.status !== 'active');
+    if (free >= 0) startCareer(free);
+    else openSaves('new');
+  };
+
+  const exportSave = (slot: number) => {
+    const save = loadSave(slot);
+    if (save) downloadJson(`neural-rush-career-slot${slot + 1}.json`, serializeSave(save));
+  };
+
+  const importSave = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    e.target.value = '';
+    if (!picked) return;
+    picked.text()
+      .then(text => {
+        writeSave(importSlotRef.current, parseSave(text));
+        setSaves(listSaves());
+        setSaveError(null);
+      })
+      .catch(err => setSaveError(err instanceof Error ? err.message : String(err)));
+  };
+
+  // Autosave: on the start line and at the finish of every career race, and on every change in
+  // the garage, so a refresh picks up from the same place. A career that ends stays in its slot.
+  useEffect(() => {
+    if (saveSlot === null) return;
+    const career = { money, score, heat, garage, wrecks, wreckLimit: NEW_CAREER.wreckLimit, relations };
+    const inCareer = simRef.current?.mode === 'career';
+    if (gameState === 'shop') writeSave(saveSlot, createSave(currentStage, 'shop', 'active', career));
+    else if (gameState === 'victory') writeSave(saveSlot, createSave(currentStage, 'shop', 'champion', career));
+    else if (gameState === 'racing' && inCareer) writeSave(saveSlot, createSave(currentStage, 'race', 'active', career));
+    else if (gameState === 'raceEnd' && inCareer) writeSave(saveSlot, createSave(currentStage, 'shop', 'active', career));
+    else if (gameState === 'gameOver' && inCareer) writeSave(saveSlot, createSave(currentStage, 'race', 'wrecked', career));
+  }, [saveSlot, gameState, currentStage, money, score, heat, garage, wrecks, relations]);
+
+  const initTimeTrial = useCallback((stageIndex: number) => {
+    beginRace(stageIndex, 'timeTrial', timeTrialSeed(stageIndex), { ...NEW_CAREER, garage: repairBike(garage) });
+  }, [beginRace, garage]);
+
+  const initTestDrive = useCallback(() => {
+    if (!editorTrack) return;
+    setTestDriveNotice(null);
+    beginRace(-1, 'testDrive', randomSeed(), { ...NEW_CAREER, garage: repairBike(garage) }, loadStage(editorTrack));
+  }, [beginRace, editorTrack, garage]);
+
+  // --- GARAGE ---
+  // Buying puts the bike or part straight into use; owned ones just get swapped in.
+  const buyGear = (id: string, price: number) => {
+    if (owns(garage, id)) { setGarage(g => fitItem(g, id)); return; }
+    if (money < price) return;
+    setMoney(m => m - price);
+    setGarage(g => buyItem(g, id));
+  };
+
+  const sellGear = (id: string) => {
+    const value = resaleValue(garage, id);
+    if (!value) return;
+    setMoney(m => m + value);
+    setGarage(g => sellItem(g, id));
+  };
+
+  const repaint = (paint: string) => {
+    if (paint === garage.paint || money < PAINT_COST) return;
+    setMoney(m => m - PAINT_COST);
+    setGarage(g => ({ ...g, paint }));
+  };
+
+  const repair = () => {
+    const bill = repairBill(garage);
+    if (!bill || money < bill) return;
+    setMoney(m => m - bill);
+    setGarage(repairBike);
+  };
+
+  const openEditor = () => {
+    setEditorTrack(t => t ?? loadDraft() ?? newTrack());
+    setGameState('editor');
+  };
+
+  // The race steps at a fixed rate whatever the frame rate, so a recording replays exactly.
+  const update = useCallback((dt: number) => {
+    const sim = simRef.current;
+    if (!sim) return;
+
+    if (sim.mode === 'testDrive' && keysRef.current['escape']) {
+      keysRef.current['escape'] = false;
+      setTestDriveNotice('TEST DRIVE ABANDONED');
+      setGameState('editor');
+      return;
     }
 
-    // AI & Traffic
-    opponentsRef.current.forEach(o => {
-      if (o.state === 'racing') {
-        o.speed = Math.min(o.maxSpeed, o.speed + 10 * dt);
-        if (Math.abs(o.z - p.z) < 2000) {
-          o.x += (p.x - o.x) * 0.02;
-          // Opponent Attack
-          if (Math.abs(o.z - p.z) < 200 && Math.abs(o.x - p.x) < 0.5 && Math.random() > 0.98) {
-            p.health -= 10;
-            for (let i = 0; i < 5; i++) createParticle(p.x, p.z, 'spark');
-          }
+    accumulatorRef.current += dt;
+    while (accumulatorRef.current >= FIXED_DT && sim.status === 'racing') {
+      accumulatorRef.current -= FIXED_DT;
+
+      // Decision Engine (never awaited; replies are applied on whichever tick they land)
+      if (sim.mode === 'career') {
+        schedulerRef.current.update(FIXED_DT, () => buildDecisionRequest(sim));
+        const decision = schedulerRef.current.take();
+        if (decision) {
+          recorderRef.current?.decision(sim.tick, decision);
+          applyEngineDecision(sim, decision);
         }
-      } else {
-        o.speed *= 0.9;
-        o.stateTimer -= dt;
-        if (o.stateTimer <= 0) { o.state = 'racing'; o.health = 50; }
       }
-      o.z += o.speed * dt * 100;
-    });
 
-    trafficRef.current.forEach(t => {
-      t.z += t.speed * dt * 100;
-      if (Math.abs(p.z - t.z) < 200 && Math.abs(p.x - t.x) < 0.5) {
-        p.speed *= 0.3; p.health -= 15;
-        for (let i = 0; i < 10; i++) createParticle(p.x, p.z, 'spark');
-      }
-    });
+      const input = readInput(keysRef.current);
+      recorderRef.current?.input(input);
+      stepRace(sim, input, FIXED_DT);
+      ghostRecorderRef.current?.sample(sim);
+      updateRadioFeed(radioRef.current, sim, RADIO_CHATTER);
+    }
 
-    if (p.z >= stage.length) {
-      p.finishPos = opponentsRef.current.filter(o => o.z > p.z).length + 1;
-      setGameState('end');
+    if (sim.status !== 'racing') {
+      if (sim.mode === 'testDrive') {
+        const time = sim.timing.find(t => t.id === 'player')?.finishTime;
+        setTestDriveNotice(sim.status === 'finished' && time !== undefined ? `TEST DRIVE: ${formatTime(time)}` : 'TEST DRIVE: WRECKED');
+        setGameState('editor');
+        return;
+      }
+      if (sim.mode === 'timeTrial') {
+        const time = sim.timing.find(t => t.id === 'player')?.finishTime ?? sim.time;
+        const run = ghostRecorderRef.current!.finish(time);
+        const best = ghostRef.current?.time ?? null;
+        setTrialResult({ time, best, record: sim.status === 'finished' && saveGhostIfBest(run) });
+      } else {
+        // The prize is banked straight away, so the autosave after the race includes it
+        setMoney(sim.player.money + (sim.status === 'finished' ? PRIZES[sim.player.finishPos - 1] : 0));
+        setScore(sim.player.score);
+        setHeat(sim.race.heatLevel);
+        setWrecks(sim.player.wrecks);
+        setGarage(g => wearBike(g, sim.player.health));
+        setRelations(r => carryRelations(r, sim.opponents));
+        if (sim.status === 'finished') fileRecap(sim);
+      }
+      setGameState(sim.status === 'finished' ? 'raceEnd' : 'gameOver');
     }
-    if (p.health <= 0) setGameState('gameover');
-  }, [currentStage, checkCombat, createParticle]);
+  }, [fileRecap]);
+
+  // --- REPLAYS ---
+  const openReplay = useCallback((file: ReplayFile) => {
+    radioRef.current = createRadioFeed();
+    // The feed follows the replay tick by tick, so it plays out as it did live at any speed.
+    playbackRef.current = createPlayback(file, sim => updateRadioFeed(radioRef.current, sim, RADIO_CHATTER));
+    replayExitRef.current = gameState;
+    setReplayTick(0);
+    setReplayPaused(false);
+    setReplaySpeed(1);
+    setReplayError(null);
+    setGameState('replay');
+  }, [gameState]);
 
-  const draw = useCallback(() => {
+  const exportReplay = () => {
+    const file = recorderRef.current?.file();
+    if (file) downloadJson(`neural-rush-stage${file.stageIndex + 1}-${file.seed}.json`, serializeReplay(file));
+  };
+
+  const importReplay = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    e.target.value = '';
+    if (!picked) return;
+    picked.text()
+      .then(text => openReplay(parseReplay(text)))
+      .catch(err => setReplayError(err instanceof Error ? err.message : String(err)));
+  };
+
+  const draw = useCallback((sim: RaceSimulation, ghost: GhostRun | null = null) => {
     const canvas = canvasRef.current; if (!canvas || !canvas.getContext('2d')) return;
     const ctx = canvas.getContext('2d')!;
-    const segments = segmentsRef.current; if (segments.length === 0) return;
-    const p = playerRef.current;
-    const camZ = cameraZRef.current;
-    const camD = 1 / Math.tan((FIELD_OF_VIEW / 2) * Math.PI / 180);
+    const segments = sim.segments; if (segments.length === 0) return;
+    const p = sim.player;
+    const camZ = sim.cameraZ;
+    // How hard the nitro is pushing, 0 to 1: eased in while it burns, and out again as the bike
+    // comes back down from past its usual top speed
+    const overspeed = Math.max(0, Math.min(1, (p.speed / p.maxSpeed - 1) / (NITRO_BOOST - 1)));
+    rushRef.current += (Math.max(p.boosting ? 1 : 0, overspeed) - rushRef.current) * 0.1;
+    const rush = rushRef.current < 0.01 ? 0 : rushRef.current;
+    const camD = 1 / Math.tan(((FIELD_OF_VIEW + BOOST_FOV * rush) / 2) * Math.PI / 180);
     
     const baseIdx = Math.floor(camZ / SEGMENT_LENGTH);
     const baseSeg = segments[wrap(baseIdx, segments.length)];
+    // The camera rides up and down the hills with the bike
+    const elevation = elevationAt(segments, p.z);
+    const camY = CAMERA_HEIGHT + elevation;
+    // The road runs out (into the haze, if there is any) where the weather stops letting you see it
+    const weather = WEATHER[sim.stage.weather];
+    const visible = Math.round(DRAW_DISTANCE * weather.visibility);
+    const farZ = camZ + visible * SEGMENT_LENGTH;
+    const hazeAt = (z: number) => weather.haze ? Math.min(1, Math.max(0, (z - camZ) / (farZ - camZ)) ** 2) : 0;
+    const tint = (color: string, haze: number) => weather.haze ? hazeColor(color, weather.haze, haze) : color;
+    // Streetlights passed on the way, for the lighting, and everything by the road, to be drawn
+    // in with the traffic from the back
+    const lamps: { x: number; y: number; foot: number; size: number }[] = [];
+    const roadside: { z: number; sx: number; sy: number; size: number; clip: number; obj: SceneryObject }[] = [];
+    // How far down the screen each segment ahead can show before a nearer brow hides it
+    const clips: number[] = [];
     
     ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
 
     // Sky
     const skyG = ctx.createLinearGradient(0, 0, 0, CANVAS_HEIGHT * 0.5);
-    skyG.addColorStop(0, '#000033'); skyG.addColorStop(1, '#1a1a4a');
+    skyG.addColorStop(0, weather.sky[0]); skyG.addColorStop(1, weather.sky[1]);
     ctx.fillStyle = skyG; ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
     
-    // Mountains
-    ctx.fillStyle = '#0a0a20'; ctx.beginPath(); ctx.moveTo(0, CANVAS_HEIGHT * 0.5);
-    for (let i = 0; i <= 10; i++) ctx.lineTo((CANVAS_WIDTH / 10) * i, CANVAS_HEIGHT * 0.5 - 40 - Math.sin(i + camZ / 10000) * 100);
-    ctx.lineTo(CANVAS_WIDTH, CANVAS_HEIGHT * 0.5); ctx.fill();
+    // Backdrop, farthest layer first. The nearer a layer, the more it slides round the bends and
+    // sinks as the road climbs.
+    const bend = bendAt(segments, camZ);
+    (sim.stage.track.backdrop ?? DEFAULT_BACKDROP).forEach(layer =>
+      drawBackdrop(ctx, layer, -bend * BEND_SHIFT * PARALLAX[layer], elevation * HILL_SHIFT * PARALLAX[layer], weather));
 
     // Road Engine
     let maxY = CANVAS_HEIGHT, curveX = 0, curveDX = -(baseSeg.curve * ((camZ % SEGMENT_LENGTH) / SEGMENT_LENGTH));
     
-    for (let n = 0; n < DRAW_DISTANCE; n++) {
+    for (let n = 0; n < visible; n++) {
       const idx = wrap(baseIdx + n, segments.length);
       const seg = segments[idx];
-      const project = (pt: Point, offset: number) => {
+      const project = (pt: RoadPoint, offset: number) => {
         const wZ = Math.max(1, pt.world.z - (camZ - offset));
         const sc = camD / wZ;
         pt.screen.x = (CANVAS_WIDTH / 2) + (sc * (pt.world.x - curveX) * CANVAS_WIDTH / 2);
-        pt.screen.y = (CANVAS_HEIGHT / 2) - (sc * (pt.world.y - CAMERA_HEIGHT) * CANVAS_HEIGHT / 2);
+        pt.screen.y = (CANVAS_HEIGHT / 2) - (sc * (pt.world.y - camY) * CANVAS_HEIGHT / 2);
         pt.screen.w = sc * ROAD_WIDTH * CANVAS_WIDTH / 2;
         pt.screen.scale = sc;
       };
@@ -462,95 +863,370 @@ export default function App() {
       project(seg.p1, offset);
       project(seg.p2, offset);
       curveX += curveDX; curveDX += seg.curve;
+      clips[n] = maxY;
 
-      if (seg.p1.screen.y <= seg.p2.screen.y || seg.p1.screen.y > maxY) continue;
-
+      // Scenery, sized by the road where it stands; the tops of things just over a brow still show
       const s1 = seg.p1.screen, s2 = seg.p2.screen;
+      seg.scenery.forEach(obj => {
+        const sx = s1.x + (obj.x * s1.w), size = s1.w * obj.scale;
+        roadside.push({ z: obj.z + offset, sx, sy: s1.y, size, clip: maxY, obj });
+        if (obj.type !== 'streetlight' || s1.y > maxY) return;
+        const lamp = lampOffset(size, Math.sign(obj.x));
+        lamps.push({ x: sx + lamp.x, y: s1.y + lamp.y, foot: s1.y, size: s1.w });
+      });
+
+      if (s1.y <= s2.y || s1.y > maxY) continue;
+
+      const haze = weather.haze ? (n / visible) ** 2 : 0;
       // Grass
-      ctx.fillStyle = seg.color.grass;
+      ctx.fillStyle = tint(seg.color.grass, haze);
       ctx.fillRect(0, s2.y, CANVAS_WIDTH, s1.y - s2.y);
       // Rumble
       const r1 = s1.w * 0.1, r2 = s2.w * 0.1;
-      ctx.fillStyle = seg.color.rumble;
+      ctx.fillStyle = tint(seg.color.rumble, haze);
       ctx.beginPath(); ctx.moveTo(s1.x - s1.w - r1, s1.y); ctx.lineTo(s2.x - s2.w - r2, s2.y); ctx.lineTo(s2.x - s2.w, s2.y); ctx.lineTo(s1.x - s1.w, s1.y); ctx.fill();
       ctx.beginPath(); ctx.moveTo(s1.x + s1.w + r1, s1.y); ctx.lineTo(s2.x + s2.w + r2, s2.y); ctx.lineTo(s2.x + s2.w, s2.y); ctx.lineTo(s1.x + s1.w, s1.y); ctx.fill();
       // Road
-      ctx.fillStyle = seg.color.road;
+      ctx.fillStyle = tint(seg.color.road, haze);
       ctx.beginPath(); ctx.moveTo(s1.x - s1.w, s1.y); ctx.lineTo(s2.x - s2.w, s2.y); ctx.lineTo(s2.x + s2.w, s2.y); ctx.lineTo(s1.x + s1.w, s1.y); ctx.fill();
       // Lanes
       if (seg.index % 6 < 3) {
-        ctx.fillStyle = '#eee';
+        ctx.fillStyle = tint('#eeeeee', haze);
         const lw1 = s1.w * 0.05, lw2 = s2.w * 0.05;
         ctx.beginPath(); ctx.moveTo(s1.x - lw1, s1.y); ctx.lineTo(s2.x - lw2, s2.y); ctx.lineTo(s2.x + lw2, s2.y); ctx.lineTo(s1.x + lw1, s1.y); ctx.fill();
-      }
-      
-      // Scenery
-      if (seg.scenery) {
-        const sx = s1.x + (seg.scenery.side * seg.scenery.offset * s1.w);
-        drawScenery(ctx, sx, s1.y, s1.scale, seg.scenery.type, seg.scenery.side);
+        // Thinner lines between the two lanes on each side
+        [-0.5, 0.5].forEach(lx => {
+          const d1 = lx * s1.w, d2 = lx * s2.w;
+          ctx.beginPath(); ctx.moveTo(s1.x + d1 - lw1 / 2, s1.y); ctx.lineTo(s2.x + d2 - lw2 / 2, s2.y); ctx.lineTo(s2.x + d2 + lw2 / 2, s2.y); ctx.lineTo(s1.x + d1 + lw1 / 2, s1.y); ctx.fill();
+        });
       }
 
       maxY = s1.y;
     }
 
-    // Sprites (Sorting)
+    // Sprites (Sorting), the roadside scenery among them
     const sprites = [
-      ...opponentsRef.current.map(o => ({ ...o, type: 'bike' })),
-      ...trafficRef.current.map(t => ({ ...t, type: 'car' }))
-    ].filter(s => s.z > camZ && s.z < camZ + DRAW_DISTANCE * SEGMENT_LENGTH).sort((a, b) => b.z - a.z);
+      ...sim.opponents.map(o => ({ ...o, sprite: 'bike' as const })),
+      ...sim.traffic.map(t => ({ ...t, sprite: 'car' as const })),
+      ...sim.obstacles.filter(o => o.active).map(o => ({ ...o, sprite: 'hazard' as const })),
+      ...sim.pickups.filter(w => !w.taken).map(w => ({ ...w, sprite: 'pickup' as const })),
+      ...sim.canisters.filter(c => !c.taken).map(c => ({ ...c, type: 'nitro', sprite: 'pickup' as const })),
+      ...roadside.map(r => ({ ...r, sprite: 'scenery' as const }))
+    ].filter(s => s.z > camZ && s.z < farZ).sort((a, b) => b.z - a.z);
+    const place = (x: number, z: number) => {
+      const sc = camD / (z - camZ);
+      return {
+        sx: (CANVAS_WIDTH / 2) + (sc * (x * ROAD_WIDTH - curveX) * CANVAS_WIDTH / 2), // Approximation of curveX for sprites is hard, keeping it simple
+        sy: (CANVAS_HEIGHT / 2) - (sc * (elevationAt(segments, z) - camY) * CANVAS_HEIGHT / 2),
+        w: sc * ROAD_WIDTH * 0.15 * (CANVAS_WIDTH / 2),
+        clip: clips[Math.floor(z / SEGMENT_LENGTH) - baseIdx] ?? CANVAS_HEIGHT
+      };
+    };
+    // Draws with whatever is below `clip` cut off, for anything partly behind the brow of a hill
+    const behindHill = (clip: number, sy: number, paint: () => void) => {
+      if (sy <= clip) return paint();
+      ctx.save(); ctx.beginPath(); ctx.rect(0, 0, CANVAS_WIDTH, clip); ctx.clip();
+      paint();
+      ctx.restore();
+    };
+
+    // A wet road mirrors the lamps above it and everything on wheels, upside down and squashed
+    if (weather.wet) {
+      ctx.globalCompositeOperation = 'lighter';
+      lamps.forEach(l => {
+        ctx.fillStyle = 'rgba(255, 214, 0, 0.12)';
+        ctx.beginPath(); ctx.ellipse(l.x, 2 * l.foot - l.y, l.size * 0.04, Math.max(l.size * 0.15, (l.foot - l.y) * 0.5), 0, 0, Math.PI * 2); ctx.fill();
+      });
+      ctx.globalCompositeOperation = 'source-over';
+      sprites.forEach(s => {
+        if (s.sprite !== 'bike' && s.sprite !== 'car') return;
+        const { sx, sy, w, clip } = place(s.x, s.z);
+        if (sy > clip) return;
+        ctx.save();
+        ctx.globalAlpha = 0.25 * (1 - hazeAt(s.z));
+        ctx.translate(0, sy); ctx.scale(1, -0.5); ctx.translate(0, -sy);
+        if (s.sprite === 'bike') drawDetailedBike(ctx, sx, sy, w, w * 1.2, s.color, 'normal', 0);
+        else drawDetailedCar(ctx, sx, sy, w * 1.6 * (s.width / 0.5), w * 0.9, s.color, s.type, 0, false, s.direction < 0);
+        ctx.restore();
+      });
+    }
 
+    // Car and bike lights, for the dark
+    const lights: { x: number; y: number; r: number }[] = [];
     sprites.forEach(s => {
-      const sc = camD / (s.z - camZ);
-      const sx = (CANVAS_WIDTH / 2) + (sc * (s.x * ROAD_WIDTH - curveX) * CANVAS_WIDTH / 2); // Approximation of curveX for sprites is hard, keeping it simple
-      const sy = (CANVAS_HEIGHT / 2) - (sc * (-CAMERA_HEIGHT) * CANVAS_HEIGHT / 2);
-      const w = sc * ROAD_WIDTH * 0.15 * (CANVAS_WIDTH / 2);
-      if (s.type === 'bike') drawDetailedBike(ctx, sx, sy, w, w * 1.2, s.color, s.attackType, 0);
-      else drawDetailedCar(ctx, sx, sy, w * 1.6, w * 0.9, s.color, s.type);
+      ctx.globalAlpha = 1 - hazeAt(s.z);
+      if (s.sprite === 'scenery') return behindHill(s.clip, s.sy, () => drawScenery(ctx, s.sx, s.sy, s.size, s.obj.type, Math.sign(s.obj.x), s.obj.color));
+      const { sx, sy, w, clip } = place(s.x, s.z);
+      if (s.sprite === 'bike' || s.sprite === 'car') lights.push({ x: sx, y: sy - w * 0.4, r: w * 1.5 });
+      behindHill(clip, sy, () => {
+        if (s.sprite === 'bike' && s.state === 'down') drawWipeout(ctx, sx, sy, w, w * 1.2, s.color, 1 - s.stateTimer / WIPEOUT_TIME, s.x < 0 ? -1 : 1);
+        else if (s.sprite === 'bike') drawDetailedBike(ctx, sx, sy - bounceLift(s.bounce) * w * 0.3, w, w * 1.2, s.color, s.attackType, 0, s.weapon?.type);
+        else if (s.sprite === 'car') drawDetailedCar(ctx, sx, sy, w * 1.6 * (s.width / 0.5), w * 0.9, s.color, s.type, s.signal, s.startled > 0, s.direction < 0);
+        else if (s.sprite === 'hazard') drawHazard(ctx, sx, sy, w, s.type);
+        else drawPickup(ctx, sx, sy, w, s.type);
+        // Nitro flame out of a boosting rival's exhaust
+        if (s.sprite === 'bike' && s.state !== 'down' && s.boosting) {
+          ctx.fillStyle = 'rgba(52, 152, 219, 0.8)';
+          ctx.beginPath(); ctx.ellipse(sx, sy + w * 0.1, w * 0.08, w * (0.2 + 0.05 * Math.sin(sim.time * 40)), 0, 0, Math.PI * 2); ctx.fill();
+        }
+        // Tag the player's ally so it is easy to pick out of the pack
+        if (s.sprite === 'bike' && s.state !== 'down' && areAllied(sim.race, s.id, 'player')) {
+          ctx.fillStyle = '#2ecc71'; ctx.font = `${Math.max(10, Math.round(w * 0.3))}px Orbitron`; ctx.textAlign = 'center';
+          ctx.fillText('ALLY', sx, sy - w * 1.5); ctx.textAlign = 'left';
+        }
+      });
     });
+    ctx.globalAlpha = 1;
+
+    // Ghost (best time-trial run, at the same point on the clock)
+    if (ghost) {
+      const g = ghostAt(ghost, sim.time);
+      if (g.z > camZ && g.z < farZ) {
+        const sc = camD / (g.z - camZ);
+        const sx = (CANVAS_WIDTH / 2) + (sc * (g.x * ROAD_WIDTH - curveX) * CANVAS_WIDTH / 2);
+        const sy = (CANVAS_HEIGHT / 2) - (sc * (elevationAt(segments, g.z) - camY) * CANVAS_HEIGHT / 2);
+        const w = sc * ROAD_WIDTH * 0.15 * (CANVAS_WIDTH / 2);
+        ctx.globalAlpha = 0.35;
+        drawDetailedBike(ctx, sx, sy, w, w * 1.2, '#ffffff', 'normal', 0);
+        ctx.globalAlpha = 1;
+      }
+    }
 
     // Particles
-    particlesRef.current.forEach(pt => {
+    sim.particles.forEach(pt => {
       const sc = camD / Math.max(1, pt.z - camZ);
       if (sc > 0) {
         const px = (CANVAS_WIDTH/2) + (sc * (pt.x * ROAD_WIDTH) * CANVAS_WIDTH/2);
-        const py = (CANVAS_HEIGHT/2) - (sc * (-CAMERA_HEIGHT) * CANVAS_HEIGHT/2);
+        const py = (CANVAS_HEIGHT/2) - (sc * (elevationAt(segments, pt.z) - camY) * CANVAS_HEIGHT/2);
         ctx.fillStyle = pt.color; ctx.globalAlpha = pt.life;
         ctx.beginPath(); ctx.arc(px, py, pt.size * sc, 0, Math.PI*2); ctx.fill(); ctx.globalAlpha = 1;
       }
     });
 
-    // Player Bike
-    drawDetailedBike(ctx, CANVAS_WIDTH/2, CANVAS_HEIGHT - 120, 280, 320, '#00ffff', p.attackType, p.lean);
+    // Darkness, with the headlight's cone, the streetlights and every car's lights cut out of it.
+    // The player's own bike goes on top, lit by its dash.
+    if (weather.darkness > 0) {
+      if (!lightRef.current) {
+        lightRef.current = document.createElement('canvas');
+        lightRef.current.width = CANVAS_WIDTH; lightRef.current.height = CANVAS_HEIGHT;
+      }
+      const light = lightRef.current;
+      const lc = light.getContext('2d')!;
+      lc.globalCompositeOperation = 'source-over';
+      lc.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      lc.fillStyle = `rgba(0, 0, 0, ${weather.darkness})`; lc.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      lc.globalCompositeOperation = 'destination-out';
+      const glow = (x: number, y: number, r: number, strength: number) => {
+        if (r < 1) return;
+        const g = lc.createRadialGradient(x, y, 0, x, y, r);
+        g.addColorStop(0, `rgba(0, 0, 0, ${strength})`); g.addColorStop(1, 'rgba(0, 0, 0, 0)');
+        lc.fillStyle = g; lc.beginPath(); lc.arc(x, y, r, 0, Math.PI * 2); lc.fill();
+      };
+      if (p.wipeout <= 0) {
+        // The beam swings with the bike's lean and fades out down the road
+        const beamX = CANVAS_WIDTH / 2 + p.lean * 160, horizon = CANVAS_HEIGHT * 0.5;
+        const beam = lc.createLinearGradient(0, CANVAS_HEIGHT - 200, 0, horizon);
+        beam.addColorStop(0, 'rgba(0, 0, 0, 0.95)'); beam.addColorStop(1, 'rgba(0, 0, 0, 0)');
+        lc.fillStyle = beam; lc.beginPath();
+        lc.moveTo(CANVAS_WIDTH / 2 - 60, CANVAS_HEIGHT - 200); lc.lineTo(beamX - 260, horizon);
+        lc.lineTo(beamX + 260, horizon); lc.lineTo(CANVAS_WIDTH / 2 + 60, CANVAS_HEIGHT - 200); lc.fill();
+      }
+      lamps.forEach(l => { glow(l.x, l.foot, l.size * 0.6, 0.8); glow(l.x, l.y, l.size * 0.2, 1); });
+      lights.forEach(l => glow(l.x, l.y, l.r, 0.7));
+      ctx.drawImage(light, 0, 0);
+      // The lamps themselves, glowing
+      ctx.globalCompositeOperation = 'lighter';
+      lamps.forEach(l => {
+        const r = Math.max(2, l.size * 0.08);
+        const g = ctx.createRadialGradient(l.x, l.y, 0, l.x, l.y, r);
+        g.addColorStop(0, 'rgba(255, 214, 0, 0.9)'); g.addColorStop(1, 'rgba(255, 214, 0, 0)');
+        ctx.fillStyle = g; ctx.beginPath(); ctx.arc(l.x, l.y, r, 0, Math.PI * 2); ctx.fill();
+      });
+      ctx.globalCompositeOperation = 'source-over';
+    }
+
+    // Player Bike (wobbling while it has no grip)
+    const wobble = p.slip > 0 ? Math.sin(sim.time * 30) * 0.6 : 0;
+    if (weather.wet && p.wipeout <= 0) {
+      ctx.save();
+      ctx.globalAlpha = 0.25;
+      ctx.translate(0, CANVAS_HEIGHT - 120); ctx.scale(1, -0.5); ctx.translate(0, -(CANVAS_HEIGHT - 120));
+      drawDetailedBike(ctx, CANVAS_WIDTH/2, CANVAS_HEIGHT - 120, 280, 320, p.garage.paint, 'normal', p.lean + wobble);
+      ctx.restore();
+    }
+    if (p.wipeout > 0) drawWipeout(ctx, CANVAS_WIDTH/2, CANVAS_HEIGHT - 120, 280, 320, p.garage.paint, 1 - p.wipeout / WIPEOUT_TIME, p.tumble);
+    else drawDetailedBike(ctx, CANVAS_WIDTH/2, CANVAS_HEIGHT - 120 - bounceLift(p.bounce) * 60, 280, 320, p.garage.paint, p.attackType, p.lean + wobble, p.weapon?.type);
+    if (p.boosting) {
+      ctx.fillStyle = 'rgba(52, 152, 219, 0.8)';
+      ctx.beginPath(); ctx.ellipse(CANVAS_WIDTH/2, CANVAS_HEIGHT - 60, 18, 40 + 10 * Math.sin(sim.time * 40), 0, 0, Math.PI * 2); ctx.fill();
+    }
     
+    // Rain slanting past, or sand blowing across the screen; worked out from the clock so a
+    // replay shows the same storm
+    if (weather.particles === 'rain') {
+      ctx.strokeStyle = 'rgba(180, 200, 230, 0.35)'; ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      for (let i = 0; i < RAIN_DROPS; i++) {
+        const x = ((i * 0.618 + sim.time * 0.15) % 1) * CANVAS_WIDTH;
+        const y = ((i * 0.377 + sim.time * 1.6) % 1) * CANVAS_HEIGHT;
+        ctx.moveTo(x, y); ctx.lineTo(x - 6 - p.lean * 10, y + 24);
+      }
+      ctx.stroke();
+    } else if (weather.particles === 'sand') {
+      ctx.fillStyle = 'rgba(200, 150, 90, 0.18)'; ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      ctx.strokeStyle = 'rgba(220, 180, 120, 0.5)'; ctx.lineWidth = 2;
+      ctx.beginPath();
+      for (let i = 0; i < SAND_STREAKS; i++) {
+        const x = ((i * 0.618 + sim.time * 1.2) % 1) * CANVAS_WIDTH;
+        const y = ((i * 0.377 + sim.time * 0.05) % 1) * CANVAS_HEIGHT;
+        ctx.moveTo(x, y); ctx.lineTo(x + 30, y + 3);
+      }
+      ctx.stroke();
+    }
+
+    // Speed lines streaking out from the vanishing point while the nitro is pushing the bike
+    if (rush > 0) {
+      ctx.strokeStyle = `rgba(255, 255, 255, ${0.4 * rush})`; ctx.lineWidth = 2;
+      for (let i = 0; i < SPEED_LINES; i++) {
+        // Golden-angle spacing spreads them round the screen; each runs outward, then starts over
+        const angle = i * 2.4;
+        const inner = 150 + ((i * 0.618 + sim.time * 2.5) % 1) * 400;
+        const length = 60 + 140 * rush;
+        const dx = Math.cos(angle), dy = Math.sin(angle);
+        ctx.beginPath();
+        ctx.moveTo(CANVAS_WIDTH / 2 + dx * inner, CANVAS_HEIGHT / 2 + dy * inner);
+        ctx.lineTo(CANVAS_WIDTH / 2 + dx * (inner + length), CANVAS_HEIGHT / 2 + dy * (inner + length));
+        ctx.stroke();
+      }
+    }
+
     // UI
     const W = CANVAS_WIDTH;
     ctx.fillStyle = 'rgba(0,0,0,0.7)'; ctx.fillRect(20, 20, 250, 140);
     ctx.strokeStyle = '#00ffff'; ctx.lineWidth = 2; ctx.strokeRect(20, 20, 250, 140);
     ctx.fillStyle = '#fff'; ctx.font = '24px Orbitron'; ctx.fillText(`SPEED: ${Math.floor(p.speed)}`, 40, 60);
-    ctx.fillStyle = '#f1c40f'; ctx.fillText(`SCORE: ${score}`, 40, 100);
+    ctx.fillStyle = '#f1c40f'; ctx.fillText(`SCORE: ${p.score}`, 40, 100);
     ctx.fillStyle = '#e74c3c'; ctx.fillText(`HEALTH:`, 40, 140);
     ctx.fillStyle = '#222'; ctx.fillRect(160, 122, 100, 15);
     ctx.fillStyle = '#e74c3c'; ctx.fillRect(162, 124, 96 * (p.health / 100), 11);
 
     ctx.fillStyle = 'rgba(0,0,0,0.7)'; ctx.fillRect(W - 270, 20, 250, 60);
-    ctx.fillStyle = '#00ff00'; ctx.font = '32px Orbitron'; ctx.textAlign = 'center'; ctx.fillText(`$${money}`, W - 145, 60); ctx.textAlign = 'left';
+    ctx.fillStyle = '#00ff00'; ctx.font = '32px Orbitron'; ctx.textAlign = 'center'; ctx.fillText(`$${p.money}`, W - 145, 60); ctx.textAlign = 'left';
+
+    // Heat
+    const heatLevel = sim.race.heatLevel;
+    ctx.fillStyle = 'rgba(0,0,0,0.7)'; ctx.fillRect(20, 170, 250, 40);
+    ctx.fillStyle = '#3498db'; ctx.font = '16px Orbitron'; ctx.fillText('HEAT', 35, 196);
+    ctx.fillStyle = '#222'; ctx.fillRect(95, 182, 160, 16);
+    ctx.fillStyle = heatLevel >= 50 ? '#e74c3c' : '#3498db'; ctx.fillRect(97, 184, 156 * (heatLevel / 100), 12);
+
+    // Nitro, and whether the bike is in a slipstream filling it up
+    ctx.fillStyle = 'rgba(0,0,0,0.7)'; ctx.fillRect(20, 220, 250, 40);
+    ctx.fillStyle = p.boosting ? '#fff' : '#3498db'; ctx.font = '16px Orbitron'; ctx.fillText(p.drafting ? 'DRAFT' : 'NITRO', 35, 246);
+    ctx.fillStyle = '#222'; ctx.fillRect(115, 232, 140, 16);
+    ctx.fillStyle = p.boosting ? '#ecf0f1' : '#3498db'; ctx.fillRect(117, 234, 136 * (p.nitroMax ? p.nitro / p.nitroMax : 0), 12);
+
+    // Weapon, and whether the guard is ready to go up again
+    ctx.fillStyle = 'rgba(0,0,0,0.7)'; ctx.fillRect(20, 270, 250, 40);
+    ctx.fillStyle = '#f1c40f'; ctx.font = '16px Orbitron';
+    ctx.fillText(p.weapon ? `${p.weapon.type.toUpperCase()} x${p.weapon.uses}` : 'FISTS', 35, 296);
+    ctx.fillStyle = p.attackCooldown && p.attackCooldown > 0 ? '#555' : '#00ffff'; ctx.textAlign = 'right';
+    ctx.fillText('GUARD', 255, 296); ctx.textAlign = 'left';
+    // Wrecks left in the career, and what getting back on is going to cost
+    if (sim.mode === 'career') {
+      ctx.fillStyle = 'rgba(0,0,0,0.7)'; ctx.fillRect(20, 320, 250, 40);
+      ctx.fillStyle = '#e74c3c'; ctx.font = '16px Orbitron'; ctx.fillText('WRECKS', 35, 346);
+      for (let i = 0; i < sim.wreckLimit; i++) {
+        ctx.fillStyle = i < p.wrecks ? '#e74c3c' : '#333';
+        ctx.fillRect(130 + i * 22, 334, 16, 16);
+      }
+    }
+    if (p.wipeout > 0) {
+      const bill = repairCost(p.garage);
+      const last = sim.mode === 'career' && (p.wrecks >= sim.wreckLimit || p.money < bill);
+      ctx.fillStyle = '#e74c3c'; ctx.font = '64px Orbitron'; ctx.textAlign = 'center';
+      ctx.fillText('WIPED OUT', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 40);
+      ctx.fillStyle = '#fff'; ctx.font = '22px Orbitron';
+      ctx.fillText(last ? 'THE BIKE IS FINISHED' : (sim.mode === 'career' ? `REPAIRS $${bill} · REMOUNTING` : 'REMOUNTING'), CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+      ctx.textAlign = 'left';
+    }
+    if (p.bustedTimer > 0) {
+      ctx.fillStyle = '#e74c3c'; ctx.font = '64px Orbitron'; ctx.textAlign = 'center';
+      ctx.fillText('BUSTED', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2); ctx.textAlign = 'left';
+    }
 
-  }, [currentStage, score, money, drawDetailedBike, drawDetailedCar, drawScenery]);
+    // Race clock, with the split against the ghost in a time trial
+    const sectionsDone = sim.timing.find(t => t.id === 'player')?.splits.length ?? 0;
+    ctx.fillStyle = 'rgba(0,0,0,0.7)'; ctx.fillRect(W / 2 - 120, 20, 240, 90);
+    ctx.fillStyle = '#fff'; ctx.font = '32px Orbitron'; ctx.textAlign = 'center';
+    ctx.fillText(formatTime(sim.time), W / 2, 60);
+    if (ghost) {
+      const delta = ghostSplit(ghost, p.z, sim.time);
+      ctx.fillStyle = delta > 0 ? '#e74c3c' : '#2ecc71'; ctx.font = '22px Orbitron';
+      ctx.fillText(`${delta > 0 ? '+' : '-'}${Math.abs(delta).toFixed(2)}`, W / 2, 96);
+    } else {
+      const sections = sim.stage.checkpoints.length;
+      ctx.fillStyle = '#aaa'; ctx.font = '16px Orbitron';
+      ctx.fillText(`SECTION ${Math.min(sectionsDone + 1, sections)} / ${sections}`, W / 2, 94);
+    }
+    ctx.textAlign = 'left';
+
+    // Bounty board (rivals' secret contracts stay hidden until they resolve)
+    const board = sim.race.activeBounties.filter(b => b.status === 'active').slice(-4);
+    if (board.length) {
+      ctx.fillStyle = 'rgba(0,0,0,0.7)'; ctx.fillRect(W - 270, 90, 250, 30 + board.length * 24);
+      ctx.fillStyle = '#f39c12'; ctx.font = '14px Orbitron'; ctx.fillText('BOUNTIES', W - 255, 110);
+      board.forEach((b, i) => {
+        const hidden = b.visibility === 'secret' && b.initiatorId !== 'player';
+        ctx.fillStyle = b.acceptedBy.includes('player') ? '#00ffff' : (b.targetId === 'player' ? '#e74c3c' : '#ccc');
+        ctx.fillText(hidden ? '??? SECRET CONTRACT' : `$${b.amount} ${b.targetId.toUpperCase()} ${b.condition.toUpperCase()}`, W - 255, 134 + i * 24);
+      });
+    }
+
+    // Radio: rival chatter and callouts, oldest at the top
+    const radio = radioRef.current;
+    radio.showing.forEach((m, i) => {
+      const y = CANVAS_HEIGHT - 20 - (radio.showing.length - i) * 62;
+      ctx.fillStyle = 'rgba(0,0,0,0.75)'; ctx.fillRect(20, y, 400, 56);
+      ctx.strokeStyle = m.color; ctx.lineWidth = m.priority > 2 ? 2 : 1; ctx.strokeRect(20, y, 400, 56);
+      drawPortrait(ctx, 26, y + 6, 44, m.color, m.speaker === 'police');
+      ctx.fillStyle = m.color; ctx.font = '12px Orbitron'; ctx.fillText(m.name, 80, y + 17);
+      ctx.fillStyle = m.spoken ? '#fff' : '#bbb'; ctx.font = m.spoken ? 'italic 14px sans-serif' : '13px Orbitron';
+      fitLines(ctx, m.spoken ? `"${m.text}"` : m.text.toUpperCase(), 330, 2).forEach((line, j) => ctx.fillText(line, 80, y + 34 + j * 16));
+    });
+
+    // A standing offer of an alliance, waiting on the player's answer
+    const offer = sim.race.allianceOffer;
+    if (offer) {
+      ctx.font = '18px Orbitron'; ctx.textAlign = 'center';
+      ctx.fillStyle = 'rgba(0,0,0,0.8)'; ctx.fillRect(W / 2 - 300, CANVAS_HEIGHT - 300, 600, 40);
+      ctx.fillStyle = '#f1c40f'; ctx.fillText(`${RACER_NAMES[offer.from] ?? offer.from.toUpperCase()} OFFERS AN ALLIANCE — Y: ACCEPT · N: DECLINE (${Math.ceil(offer.timer)})`, W / 2, CANVAS_HEIGHT - 273);
+      ctx.textAlign = 'left';
+    }
+
+  }, [drawDetailedBike, drawDetailedCar, drawHazard, drawPickup, drawPortrait, drawScenery, drawWipeout]);
 
   useEffect(() => {
     let animId: number;
     const loop = (t: number) => {
       const dt = Math.min(0.1, (t - lastTimeRef.current) / 1000);
       lastTimeRef.current = t;
-      if (gameState === 'racing') { update(dt); draw(); }
+      if (gameState === 'racing' && simRef.current) { update(dt); draw(simRef.current, ghostRef.current); }
+      else if (gameState === 'editor' && previewRef.current) draw(previewRef.current);
+      else if (gameState === 'replay' && playbackRef.current) {
+        const playback = playbackRef.current;
+        if (!replayPaused) playback.advance(dt, replaySpeed);
+        draw(playback.sim);
+        setReplayTick(playback.sim.tick);
+      }
       animId = requestAnimationFrame(loop);
     };
     animId = requestAnimationFrame(loop);
     return () => cancelAnimationFrame(animId);
-  }, [gameState, draw, update]);
+  }, [gameState, draw, update, replayPaused, replaySpeed]);
 
   useEffect(() => {
-    const onK = (e: KeyboardEvent, d: boolean) => keysRef.current[e.key.toLowerCase()] = d;
+    const onK = (e: KeyboardEvent, d: boolean) => { if (!e.repeat) keysRef.current[e.key.toLowerCase()] = d; };
     window.addEventListener('keydown', e => onK(e, true));
     window.addEventListener('keyup', e => onK(e, false));
     return () => {
@@ -559,6 +1235,53 @@ export default function App() {
     };
   }, []);
 
+  // The preview never steps, so it has no radio of its own; drop whatever the last race left on it.
+  useEffect(() => {
+    if (gameState === 'editor') radioRef.current = createRadioFeed();
+  }, [gameState]);
+
+  // The preview is rebuilt whenever the track changes, and keeps the last good one while it doesn't validate.
+  useEffect(() => {
+    if (!editorTrack) return;
+    saveDraft(editorTrack);
+    const { track } = validateTrack(editorTrack);
+    if (track) previewRef.current = createRace(-1, NEW_CAREER, PREVIEW_SEED, 'testDrive', loadStage(track));
+  }, [editorTrack]);
+
+  useEffect(() => {
+    const preview = previewRef.current;
+    if (!preview) return;
+    preview.cameraZ = previewSegment * SEGMENT_LENGTH;
+    preview.player.z = preview.cameraZ + 300;
+  }, [editorTrack, previewSegment]);
+
+  const recapHistory = gameState === 'history' ? loadRecapHistory() : [];
+  const continuable = gameState === 'title' ? latestSave() : null;
+  const loadout = bikeStats(garage);
+  const condition = conditionOf(garage);
+  const repairPrice = repairBill(garage);
+
+  const replayActions = (
+    <div className="mb-10 flex flex-col items-center gap-3">
+      <div className="flex gap-4">
+        <button onClick={() => recorderRef.current && openReplay(recorderRef.current.file())}
+          className="px-6 py-3 border-2 border-zinc-600 text-zinc-300 font-black text-lg hover:border-cyan-400 hover:text-cyan-400 transition-all">
+          <Film className="inline mr-2 w-5 h-5" /> WATCH REPLAY
+        </button>
+        <button onClick={exportReplay}
+          className="px-6 py-3 border-2 border-zinc-600 text-zinc-300 font-black text-lg hover:border-cyan-400 hover:text-cyan-400 transition-all">
+          <Download className="inline mr-2 w-5 h-5" /> EXPORT
+        </button>
+        <button onClick={() => importRef.current?.click()}
+          className="px-6 py-3 border-2 border-zinc-600 text-zinc-300 font-black text-lg hover:border-cyan-400 hover:text-cyan-400 transition-all">
+          <Upload className="inline mr-2 w-5 h-5" /> IMPORT
+        </button>
+        <input ref={importRef} type="file" accept="application/json,.json" className="hidden" onChange={importReplay} />
+      </div>
+      {replayError && <p className="text-rose-500 text-sm font-bold">{replayError}</p>}
+    </div>
+  );
+
   return (
     <div className="relative w-full h-screen bg-black flex items-center justify-center overflow-hidden">
       <canvas ref={canvasRef} width={CANVAS_WIDTH} height={CANVAS_HEIGHT} className="bg-black shadow-2xl rounded-sm" />
@@ -569,71 +1292,339 @@ export default function App() {
             <h1 className="text-8xl md:text-9xl font-black italic tracking-tighter text-cyan-400 drop-shadow-[0_0_40px_rgba(34,211,238,0.8)] glitch">NEURAL RUSH</h1>
             <p className="text-2xl text-rose-500 font-bold tracking-[0.5em] uppercase">Road Rage Riders</p>
           </div>
-          <button onClick={() => initRace()} className="group relative px-20 py-8 border-4 border-cyan-400 text-cyan-400 font-black text-4xl hover:bg-cyan-400 hover:text-black transition-all transform hover:scale-105">
-            IGNITION
+          {continuable ? (
+            <button onClick={() => resumeCareer(continuable.slot, continuable.save)} className="group relative px-20 py-8 border-4 border-cyan-400 text-cyan-400 font-black text-4xl hover:bg-cyan-400 hover:text-black transition-all transform hover:scale-105">
+              CONTINUE
+              <span className="block text-sm tracking-widest mt-2">SLOT {continuable.slot + 1} · {STAGES[continuable.save.stage].name} · ${continuable.save.career.money}</span>
+            </button>
+          ) : (
+            <button onClick={newCareer} className="group relative px-20 py-8 border-4 border-cyan-400 text-cyan-400 font-black text-4xl hover:bg-cyan-400 hover:text-black transition-all transform hover:scale-105">
+              IGNITION
+            </button>
+          )}
+          <div className="mt-6 flex gap-4">
+            <button onClick={() => openSaves('new')} className="px-10 py-3 border-2 border-zinc-600 text-zinc-400 font-black text-xl hover:border-white hover:text-white transition-all">
+              NEW CAREER
+            </button>
+            <button onClick={() => openSaves('load')} className="px-10 py-3 border-2 border-zinc-600 text-zinc-400 font-black text-xl hover:border-white hover:text-white transition-all">
+              LOAD CAREER
+            </button>
+          </div>
+          <button onClick={() => setGameState('trialSelect')} className="mt-6 px-10 py-3 border-2 border-zinc-600 text-zinc-400 font-black text-xl hover:border-white hover:text-white transition-all">
+            TIME TRIAL
+          </button>
+          <button onClick={() => { recapExitRef.current = 'title'; setGameState('history'); }} className="mt-4 px-10 py-3 border-2 border-zinc-600 text-zinc-400 font-black text-xl hover:border-white hover:text-white transition-all">
+            CAREER HISTORY
+          </button>
+          <button onClick={openEditor} className="mt-4 px-10 py-3 border-2 border-zinc-600 text-zinc-400 font-black text-xl hover:border-white hover:text-white transition-all">
+            TRACK EDITOR
           </button>
           <div className="mt-20 flex gap-16 text-zinc-500 font-bold text-sm tracking-widest uppercase">
             <p>ARROWS / WASD: DRIVE</p>
-            <p>Z / X: PUNCHES</p>
+            <p>Z / X: PUNCHES, V: KICK</p>
+            <p>SHIFT: BLOCK</p>
+            <p>B / C: POST / TAKE BOUNTY</p>
+            <p>Y / N: ALLY / REFUSE</p>
+            <p>SPACE: NITRO</p>
           </div>
         </ScreenOverlay>
       )}
 
-      {gameState === 'end' && (
+      {gameState === 'saves' && (
         <ScreenOverlay>
-          <h2 className="text-7xl font-black text-cyan-400 mb-4 italic uppercase">RACE FINISHED</h2>
-          <div className="text-4xl mb-12 font-bold space-y-4">
-            <p className="text-amber-400">POSITION: {playerRef.current.finishPos} / 6</p>
-            <p className="text-green-400">REWARD: +${[1500, 1000, 500, 200, 100, 50][playerRef.current.finishPos - 1]}</p>
+          <h2 className="text-6xl font-black text-cyan-400 mb-12 italic">{savesMode === 'new' ? 'NEW CAREER' : 'LOAD CAREER'}</h2>
+          <div className="w-full max-w-4xl space-y-3 mb-6">
+            {saves.map((save, slot) => {
+              const playable = savesMode === 'new' || save?.status === 'active';
+              return (
+                <div key={slot} className="flex items-center gap-4 bg-zinc-900/80 px-6 py-4 rounded-xl border-2 border-zinc-800">
+                  <Save className="w-6 h-6 text-zinc-500" />
+                  <div className="flex-1 text-left">
+                    <div className="text-xs font-bold text-zinc-500">SLOT {slot + 1}{save && ` · ${new Date(save.savedAt).toLocaleString()}`}</div>
+                    {save ? (
+                      <div className="flex gap-6 text-lg font-black">
+                        <span className="uppercase" style={{ color: STAGES[save.stage].color }}>{STAGES[save.stage].name}</span>
+                        <span className="text-zinc-400">STAGE {save.stage + 1}/{STAGES.length}</span>
+                        <span className="text-green-400">${save.career.money}</span>
+                        <span className="text-amber-400">{save.career.score} PTS</span>
+                        <span className="text-zinc-400">{bikeById(save.career.garage.bike).name} · {conditionOf(save.career.garage)}%</span>
+                        {save.status !== 'active' && <span className={save.status === 'champion' ? 'text-amber-400' : 'text-rose-500'}>{save.status.toUpperCase()}</span>}
+                      </div>
+                    ) : <div className="text-lg font-black text-zinc-600">EMPTY</div>}
+                  </div>
+                  <button disabled={!playable} onClick={() => savesMode === 'new' ? startCareer(slot) : resumeCareer(slot, save!)}
+                    className={`px-6 py-2 font-black transition-all ${playable ? 'bg-cyan-500 text-black hover:bg-white' : 'bg-zinc-800 text-zinc-600'}`}>
+                    {savesMode === 'load' ? 'LOAD' : save ? 'OVERWRITE' : 'START'}
+                  </button>
+                  <button disabled={!save} onClick={() => exportSave(slot)} className="text-zinc-400 hover:text-cyan-400 disabled:text-zinc-700">
+                    <Download className="w-5 h-5" />
+                  </button>
+                  <button onClick={() => { importSlotRef.current = slot; saveImportRef.current?.click(); }} className="text-zinc-400 hover:text-cyan-400">
+                    <Upload className="w-5 h-5" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          <input ref={saveImportRef} type="file" accept="application/json,.json" className="hidden" onChange={importSave} />
+          {saveError && <p className="text-rose-500 text-sm font-bold mb-6">{saveError}</p>}
+          <button onClick={() => setGameState('title')} className="px-12 py-4 border-2 border-zinc-600 text-zinc-300 font-black text-xl hover:border-white hover:text-white transition-all">
+            BACK
+          </button>
+        </ScreenOverlay>
+      )}
+
+      {gameState === 'trialSelect' && (
+        <ScreenOverlay>
+          <h2 className="text-6xl font-black text-cyan-400 mb-12 italic">TIME TRIAL</h2>
+          <div className="w-full max-w-2xl space-y-3 mb-12">
+            {STAGES.map((stage, i) => {
+              const best = loadGhost(i);
+              return (
+                <button key={stage.name} onClick={() => initTimeTrial(i)}
+                  className="w-full flex justify-between items-center bg-zinc-900/80 px-8 py-4 rounded-xl border-2 border-zinc-800 hover:border-cyan-400 transition-all">
+                  <span className="text-xl font-black uppercase" style={{ color: stage.color }}>
+                    {stage.name} <span className="text-xs text-zinc-500 tracking-widest">{WEATHER[stage.weather].name}</span>
+                  </span>
+                  <span className="text-lg font-bold text-zinc-400">{best ? `BEST ${formatTime(best.time)}` : 'NO TIME SET'}</span>
+                </button>
+              );
+            })}
           </div>
-          <button onClick={() => { 
-            const prize = [1500, 1000, 500, 200, 100, 50][playerRef.current.finishPos - 1];
-            setMoney(m => m + prize);
-            setGameState('shop');
-          }} className="px-20 py-8 bg-cyan-500 text-black font-black text-3xl hover:bg-white transition-all shadow-xl">
-            GARAGE
+          <button onClick={() => setGameState('title')} className="px-12 py-4 border-2 border-zinc-600 text-zinc-300 font-black text-xl hover:border-white hover:text-white transition-all">
+            BACK
           </button>
         </ScreenOverlay>
       )}
 
+      {gameState === 'raceEnd' && simRef.current?.mode === 'timeTrial' && trialResult && (
+        <ScreenOverlay>
+          <h2 className="text-7xl font-black text-cyan-400 mb-4 italic uppercase">{STAGES[simRef.current.stageIndex].name}</h2>
+          <div className="text-4xl mb-12 font-bold space-y-4">
+            <p className="text-white">TIME: {formatTime(trialResult.time)}</p>
+            {trialResult.record
+              ? <p className="text-amber-400 animate-pulse">NEW RECORD{trialResult.best !== null && ` (-${(trialResult.best - trialResult.time).toFixed(2)})`}</p>
+              : trialResult.best !== null && <p className="text-zinc-400">BEST: {formatTime(trialResult.best)}</p>}
+          </div>
+          {replayActions}
+          <div className="flex gap-6">
+            <button onClick={() => initTimeTrial(simRef.current!.stageIndex)} className="px-16 py-6 bg-cyan-500 text-black font-black text-2xl hover:bg-white transition-all shadow-xl">
+              RETRY
+            </button>
+            <button onClick={() => setGameState('trialSelect')} className="px-16 py-6 border-4 border-white text-white font-black text-2xl hover:bg-white hover:text-black transition-all">
+              STAGES
+            </button>
+          </div>
+        </ScreenOverlay>
+      )}
+
+      {gameState === 'raceEnd' && simRef.current?.mode === 'career' && (
+        <ScreenOverlay>
+          <h2 className="text-7xl font-black text-cyan-400 mb-4 italic uppercase">RACE FINISHED</h2>
+          <p className="text-zinc-500 text-sm font-bold tracking-widest mb-6">SEED {simRef.current.seed}</p>
+          <div className="text-3xl mb-6 font-bold flex gap-12">
+            <p className="text-amber-400">POSITION: {simRef.current.player.finishPos} / 6</p>
+            <p className="text-green-400">REWARD: +${PRIZES[simRef.current.player.finishPos - 1]}</p>
+          </div>
+          <table className="mb-8 w-full max-w-2xl text-lg font-bold">
+            <tbody>
+              {raceResults(simRef.current.timing, RACER_NAMES).map(r => (
+                <tr key={r.id} className={`border-b border-zinc-800 ${r.id === 'player' ? 'text-cyan-400' : 'text-zinc-300'}`}>
+                  <td className="py-2 text-left w-12">{r.position}</td>
+                  <td className="py-2 text-left">{r.name}</td>
+                  <td className="py-2 text-right">{formatTime(r.time)}</td>
+                  <td className="py-2 text-right w-32 text-zinc-500">{r.position > 1 ? `+${r.gap.toFixed(2)}` : ''}</td>
+                  <td className="py-2 text-right w-28 text-xs text-zinc-500">{r.estimated ? 'PROJECTED' : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {simRef.current.race.activeBounties.length > 0 && (
+            <div className="mb-8 w-full max-w-2xl text-left text-lg font-bold space-y-2">
+              {simRef.current.race.activeBounties.map(b => (
+                <div key={b.id} className="flex justify-between bg-zinc-900/80 px-6 py-3 rounded-xl border border-zinc-800">
+                  <span className="text-zinc-300 uppercase">{b.initiatorId} → {b.targetId} · {b.condition} · ${b.amount}</span>
+                  <span className={b.status === 'complete' ? 'text-green-400' : b.status === 'failed' ? 'text-rose-500' : 'text-amber-400'}>
+                    {b.status === 'complete' ? `CLAIMED BY ${b.claimedBy?.toUpperCase()}` : b.status.toUpperCase()}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+          {replayActions}
+          <div className="flex gap-6">
+            <button onClick={() => { recapExitRef.current = 'raceEnd'; setPickedRecap(null); setGameState('recap'); }}
+              className="px-10 py-8 border-4 border-rose-500 text-rose-500 font-black text-2xl hover:bg-rose-500 hover:text-black transition-all">
+              <Newspaper className="inline mr-3 w-7 h-7" /> AFTER ACTION REPORT
+            </button>
+            <button onClick={() => setGameState('shop')} className="px-20 py-8 bg-cyan-500 text-black font-black text-3xl hover:bg-white transition-all shadow-xl">
+              GARAGE
+            </button>
+          </div>
+        </ScreenOverlay>
+      )}
+
       {gameState === 'shop' && (
         <ScreenOverlay>
           <h2 className="text-6xl font-black text-amber-500 mb-2 italic">THE NEURAL GARAGE</h2>
-          <div className="text-4xl text-green-400 font-black mb-12 bg-black/60 px-10 py-4 rounded-full border-2 border-green-500/30">CASH: ${money}</div>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-8 w-full max-w-5xl mb-16">
-            {[
-              { id: 'speed', name: 'TURBOCORE', cost: 500 * upgrades.speed, level: upgrades.speed, icon: <Zap className="w-10 h-10"/> },
-              { id: 'acceleration', name: 'SLICK TIRES', cost: 400 * upgrades.acceleration, level: upgrades.acceleration, icon: <Wind className="w-10 h-10" /> },
-              { id: 'combat', name: 'SPIKED ARMOR', cost: 300 * upgrades.combat, level: upgrades.combat, icon: <Target className="w-10 h-10" /> }
-            ].map(item => (
-              <div key={item.id} className="bg-zinc-900/90 p-10 rounded-3xl border-2 border-zinc-800 flex flex-col items-center gap-6 group hover:border-amber-500 transition-all">
-                <div className="text-amber-500 p-4 bg-black rounded-full shadow-inner">{item.icon}</div>
-                <div className="text-2xl font-black text-white">{item.name}</div>
-                <div className="flex gap-2">
-                  {[...Array(5)].map((_, i) => <div key={i} className={`h-2 w-6 rounded-full ${i < item.level ? 'bg-amber-500' : 'bg-zinc-800'}`} />)}
+          <div className="text-4xl text-green-400 font-black mb-8 bg-black/60 px-10 py-4 rounded-full border-2 border-green-500/30">CASH: ${money}</div>
+          <div className="w-full max-w-5xl mb-6 bg-zinc-900/90 px-8 py-5 rounded-3xl border-2 border-zinc-800 flex items-center gap-8 text-left">
+            <div className="flex-1">
+              <div className="text-3xl font-black italic" style={{ color: garage.paint }}>{bikeById(garage.bike).name}</div>
+              <div className="text-sm font-bold text-zinc-400">
+                TOP {loadout.topSpeed} · ACCEL {loadout.accel} · BRAKES {loadout.braking} · HANDLING {Math.round(loadout.handling * 100)}% · ARMOR {Math.round(loadout.armor * 100)}% · POWER {Math.round(loadout.power * 100)}% · NITRO {loadout.nitro}
+              </div>
+              <div className="flex items-center gap-2 mt-3">
+                {bikeById(garage.bike).paints.map(paint => (
+                  <button key={paint} onClick={() => repaint(paint)} title={paint === garage.paint ? 'CURRENT PAINT' : `REPAINT $${PAINT_COST}`}
+                    className={`h-6 w-10 rounded-full border-2 ${paint === garage.paint ? 'border-white' : 'border-transparent hover:border-zinc-400'}`} style={{ background: paint }} />
+                ))}
+                <span className="text-xs font-bold text-zinc-500 ml-2">REPAINT ${PAINT_COST}</span>
+              </div>
+            </div>
+            <div className="w-48">
+              <div className="text-sm font-black text-zinc-500">CONDITION {condition}%</div>
+              <div className="h-3 bg-zinc-800 rounded-full mt-1">
+                <div className={`h-3 rounded-full ${condition > 60 ? 'bg-green-500' : condition > 30 ? 'bg-amber-500' : 'bg-rose-500'}`} style={{ width: `${condition}%` }} />
+              </div>
+            </div>
+            <button disabled={!repairPrice || money < repairPrice} onClick={repair}
+              className={`px-6 py-3 rounded-2xl font-black text-lg transition-all ${repairPrice && money >= repairPrice ? 'bg-green-500 text-black hover:scale-105' : 'bg-zinc-800 text-zinc-600'}`}>
+              <Wrench className="inline mr-2 w-5 h-5" /> {repairPrice ? `REPAIR $${repairPrice}` : 'NO DAMAGE'}
+            </button>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 w-full max-w-5xl mb-6">
+            {BIKES.map(b => {
+              const mine = owns(garage, b.id);
+              const value = resaleValue(garage, b.id);
+              return (
+                <div key={b.id} className={`bg-zinc-900/90 p-4 rounded-2xl border-2 flex flex-col gap-2 text-left ${garage.bike === b.id ? 'border-amber-500' : 'border-zinc-800'}`}>
+                  <div className="text-xl font-black text-white">{b.name}</div>
+                  <div className="text-xs font-bold text-zinc-400">TOP {b.stats.topSpeed} · ACCEL {b.stats.accel} · HANDLING {Math.round(b.stats.handling * 100)}%{b.stats.armor ? ` · ARMOR ${Math.round(b.stats.armor * 100)}%` : ''}</div>
+                  <div className="flex gap-1">{b.paints.map(paint => <div key={paint} className="h-2 w-6 rounded-full" style={{ background: paint }} />)}</div>
+                  <button disabled={garage.bike === b.id || (!mine && money < b.price)} onClick={() => buyGear(b.id, b.price)}
+                    className={`py-2 rounded-xl font-black transition-all ${garage.bike !== b.id && (mine || money >= b.price) ? 'bg-amber-500 text-black hover:scale-105' : 'bg-zinc-800 text-zinc-600'}`}>
+                    {garage.bike === b.id ? 'RIDING' : mine ? 'RIDE' : `BUY $${b.price}`}
+                  </button>
+                  {value > 0 && <button onClick={() => sellGear(b.id)} className="text-xs font-black text-zinc-500 hover:text-green-400">SELL ${value}</button>}
                 </div>
-                <button 
-                  disabled={money < item.cost || item.level >= 5}
-                  onClick={() => { setMoney(m => m - item.cost); setUpgrades(p => ({ ...p, [item.id]: (p as any)[item.id] + 1 })); }}
-                  className={`w-full py-5 rounded-2xl font-black text-xl transition-all ${money >= item.cost && item.level < 5 ? 'bg-amber-500 text-black hover:scale-105' : 'bg-zinc-800 text-zinc-600'}`}
-                >
-                  {item.level >= 5 ? 'MAXED' : `UPGRADE $${item.cost}`}
-                </button>
+              );
+            })}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 w-full max-w-5xl mb-10">
+            {PART_SLOTS.map(slot => (
+              <div key={slot} className="bg-zinc-900/90 p-4 rounded-2xl border-2 border-zinc-800 text-left space-y-2">
+                <div className="flex items-center gap-2 text-amber-500 text-sm font-black tracking-widest uppercase">{SLOT_ICONS[slot]} {slot}</div>
+                {PARTS.filter(part => part.slot === slot).map(part => {
+                  const fitted = inUse(garage, part.id);
+                  const mine = owns(garage, part.id);
+                  const value = resaleValue(garage, part.id);
+                  return (
+                    <div key={part.id} className="flex items-center gap-2">
+                      <div className="flex-1">
+                        <div className={`text-sm font-black ${fitted ? 'text-white' : 'text-zinc-400'}`}>{part.name}</div>
+                        <div className="text-xs font-bold text-zinc-500">{part.weapon ? `STARTS WITH A ${part.weapon.toUpperCase()}` : describeMods(part.mods) || 'STOCK'}</div>
+                      </div>
+                      {value > 0 && <button onClick={() => sellGear(part.id)} className="text-xs font-black text-zinc-500 hover:text-green-400">SELL ${value}</button>}
+                      <button disabled={fitted || (!mine && money < part.price)} onClick={() => buyGear(part.id, part.price)}
+                        className={`w-24 py-1 rounded-lg text-xs font-black transition-all ${!fitted && (mine || money >= part.price) ? 'bg-amber-500 text-black hover:scale-105' : 'bg-zinc-800 text-zinc-600'}`}>
+                        {fitted ? 'FITTED' : mine ? 'FIT' : `BUY $${part.price}`}
+                      </button>
+                    </div>
+                  );
+                })}
               </div>
             ))}
           </div>
-          <button onClick={() => { if (currentStage < STAGES.length - 1) { setCurrentStage(s => s + 1); initRace(); } else setGameState('victory'); }}
+          <div className="flex items-center gap-8 mb-12 bg-zinc-900/90 px-10 py-5 rounded-3xl border-2 border-zinc-800">
+            <div className="text-2xl font-black text-blue-400">HEAT: {Math.round(heat)}</div>
+            <button
+              disabled={money < LAY_LOW_COST || heat <= 0}
+              onClick={() => { setMoney(m => m - LAY_LOW_COST); setHeat(h => Math.max(0, h - LAY_LOW_COOLING)); }}
+              className={`px-8 py-3 rounded-2xl font-black text-lg transition-all ${money >= LAY_LOW_COST && heat > 0 ? 'bg-blue-500 text-black hover:scale-105' : 'bg-zinc-800 text-zinc-600'}`}
+            >
+              PLATE SWAP -{LAY_LOW_COOLING} HEAT ${LAY_LOW_COST}
+            </button>
+          </div>
+          <div className="mb-12 w-full max-w-3xl bg-zinc-900/90 px-10 py-5 rounded-3xl border-2 border-zinc-800 text-left space-y-2">
+            <div className="text-sm font-black tracking-widest text-zinc-500">RIVALRIES</div>
+            {RIVALS.map(r => {
+              const mine: Relations = relations[r.id] ?? {};
+              const toward = mine.player ?? { grudge: 0, respect: 0, fear: 0 };
+              const feud = Object.entries(mine).filter(([id, f]) => id !== 'player' && f.grudge >= FEUD_GRUDGE).map(([id]) => RACER_NAMES[id]);
+              return (
+                <div key={r.id} className="flex items-center gap-6 text-sm font-bold">
+                  <span className="w-24 font-black" style={{ color: r.color }}>{r.name}</span>
+                  <span className="w-28 text-rose-500">GRUDGE {Math.round(toward.grudge)}</span>
+                  <span className="w-28 text-cyan-400">RESPECT {Math.round(toward.respect)}</span>
+                  <span className="w-24 text-amber-400">FEAR {Math.round(toward.fear)}</span>
+                  <span className="text-zinc-500">{feud.length ? `FEUDING WITH ${feud.join(', ')}` : ''}</span>
+                </div>
+              );
+            })}
+          </div>
+          <button onClick={() => { if (currentStage < STAGES.length - 1) { setCurrentStage(currentStage + 1); initRace(currentStage + 1); } else setGameState('victory'); }}
             className="px-32 py-10 bg-cyan-500 text-black font-black text-4xl rounded-full hover:scale-110 transition-all shadow-[0_20px_50px_rgba(6,182,212,0.4)]">
             NEXT STAGE
           </button>
+          <button onClick={() => { recapExitRef.current = 'shop'; setGameState('history'); }} className="mt-8 text-zinc-500 font-black tracking-widest hover:text-white transition-all">
+            <Newspaper className="inline mr-2 w-5 h-5" /> CAREER HISTORY
+          </button>
+        </ScreenOverlay>
+      )}
+
+      {gameState === 'recap' && (
+        <ScreenOverlay>
+          {(pickedRecap || latestRecap)
+            ? <RecapFeed entry={(pickedRecap || latestRecap)!} />
+            : (
+              <div className="flex flex-col items-center gap-6 text-zinc-400 font-black tracking-widest">
+                <Loader2 className="w-16 h-16 animate-spin text-rose-500" />
+                FILING THE REPORT...
+              </div>
+            )}
+          <button onClick={() => setGameState(pickedRecap ? 'history' : recapExitRef.current)}
+            className="mt-8 px-16 py-4 border-2 border-zinc-600 text-zinc-300 font-black text-xl hover:border-white hover:text-white transition-all">
+            BACK
+          </button>
         </ScreenOverlay>
       )}
 
-      {gameState === 'gameover' && (
+      {gameState === 'history' && (
+        <ScreenOverlay>
+          <h2 className="text-6xl font-black text-rose-500 mb-10 italic">CAREER HISTORY</h2>
+          <div className="w-full max-w-3xl max-h-[60vh] overflow-y-auto space-y-3 mb-10">
+            {recapHistory.map(entry => (
+              <button key={entry.id} onClick={() => { setPickedRecap(entry); setGameState('recap'); }}
+                className="w-full text-left bg-zinc-900/80 px-6 py-4 rounded-xl border-2 border-zinc-800 hover:border-rose-500 transition-all">
+                <div className="flex justify-between text-xs font-bold text-zinc-500 mb-1">
+                  <span>{entry.stageName} · P{entry.position}{entry.time !== null && ` · ${formatTime(entry.time)}`}</span>
+                  <span>{new Date(entry.date).toLocaleDateString()}</span>
+                </div>
+                <div className="text-lg font-black text-white">{entry.recap.headline}</div>
+              </button>
+            ))}
+            {recapHistory.length === 0 && <p className="text-zinc-500 font-bold">No reports filed yet. Go make some headlines.</p>}
+          </div>
+          <button onClick={() => { setPickedRecap(null); setGameState(recapExitRef.current); }}
+            className="px-16 py-4 border-2 border-zinc-600 text-zinc-300 font-black text-xl hover:border-white hover:text-white transition-all">
+            BACK
+          </button>
+        </ScreenOverlay>
+      )}
+
+      {gameState === 'gameOver' && (
         <ScreenOverlay>
           <Skull className="w-32 h-32 text-rose-600 mb-8 animate-pulse" />
           <h2 className="text-[10rem] font-black text-rose-600 mb-6 italic leading-none drop-shadow-[0_0_30px_rgba(225,29,72,0.6)]">WASTED</h2>
-          <button onClick={() => window.location.reload()} className="px-16 py-8 border-4 border-white text-white font-black text-3xl hover:bg-white hover:text-black transition-all">
+          {simRef.current && (
+            <p className="text-zinc-400 text-xl font-bold tracking-widest mb-2">
+              {simRef.current.player.wrecks >= simRef.current.wreckLimit ? `${simRef.current.wreckLimit} WRECKS. THE CAREER IS OVER.` : "CAN'T PAY FOR THE REPAIRS."}
+            </p>
+          )}
+          {simRef.current && <p className="text-zinc-500 text-sm font-bold tracking-widest mb-8">SEED {simRef.current.seed}</p>}
+          {replayActions}
+          <button onClick={() => setGameState('title')} className="px-16 py-8 border-4 border-white text-white font-black text-3xl hover:bg-white hover:text-black transition-all">
             <RotateCcw className="inline mr-4 w-8 h-8" /> REBOOT
           </button>
         </ScreenOverlay>
@@ -643,11 +1634,45 @@ export default function App() {
         <ScreenOverlay>
           <Trophy className="w-40 h-40 text-amber-500 mb-10 animate-bounce" />
           <h1 className="text-8xl font-black text-cyan-400 mb-10 italic">WORLD CHAMPION</h1>
-          <button onClick={() => window.location.reload()} className="px-20 py-10 bg-white text-black font-black text-4xl hover:bg-cyan-400 transition-all shadow-2xl">
+          <button onClick={() => openSaves('new')} className="px-20 py-10 bg-white text-black font-black text-4xl hover:bg-cyan-400 transition-all shadow-2xl">
             NEW CAREER
           </button>
         </ScreenOverlay>
       )}
+
+      {gameState === 'editor' && editorTrack && (
+        <TrackEditor track={editorTrack} onChange={setEditorTrack} previewSegment={previewSegment} onPreview={setPreviewSegment}
+          onTestDrive={initTestDrive} onExit={() => setGameState('title')} notice={testDriveNotice} />
+      )}
+
+      {gameState === 'racing' && simRef.current?.mode === 'testDrive' && (
+        <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-50 bg-black/80 px-6 py-3 rounded-2xl border border-zinc-800 text-zinc-400 font-orbitron font-black text-sm tracking-widest">
+          TEST DRIVE · ESC: BACK TO EDITOR
+        </div>
+      )}
+
+      {gameState === 'replay' && playbackRef.current && (
+        <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 bg-black/80 px-6 py-4 rounded-2xl border border-zinc-800 text-white font-orbitron">
+          <span className="text-rose-500 font-black tracking-widest">REPLAY</span>
+          <button onClick={() => setReplayPaused(p => !p)} className="text-cyan-400 hover:text-white">
+            {replayPaused ? <Play className="w-6 h-6" /> : <Pause className="w-6 h-6" />}
+          </button>
+          <input type="range" min={0} max={playbackRef.current.totalTicks} value={replayTick}
+            onChange={e => { playbackRef.current?.seek(Number(e.target.value)); setReplayTick(Number(e.target.value)); }}
+            className="w-80 accent-cyan-400" />
+          <span className="w-20 text-sm font-bold text-zinc-400">{(replayTick * playbackRef.current.dt).toFixed(1)}s</span>
+          {REPLAY_SPEEDS.map(s => (
+            <button key={s} onClick={() => setReplaySpeed(s)}
+              className={`px-2 py-1 text-sm font-black rounded ${replaySpeed === s ? 'bg-cyan-400 text-black' : 'text-zinc-400 hover:text-white'}`}>
+              {s}x
+            </button>
+          ))}
+          <button onClick={() => { playbackRef.current = null; setGameState(replayExitRef.current); }}
+            className="px-4 py-1 border-2 border-zinc-600 text-zinc-300 font-black text-sm hover:border-white hover:text-white">
+            EXIT
+          </button>
+        </div>
+      )}
     </div>
   );
 }
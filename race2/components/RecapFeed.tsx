@@ -0,0 +1,78 @@
+import React from 'react';
+import { MessageSquare, ArrowBigUp, Radio } from 'lucide-react';
+import { RecapEntry } from '../game/recapHistory';
+import { RIVALS } from '../game/simulation';
+import { formatTime } from '../game/timing';
+
+/** An After Action Report laid out as an underground news page: story, wire, DMs, forum. */
+const RecapFeed: React.FC<{ entry: RecapEntry }> = ({ entry }) => {
+  const { recap } = entry;
+  const rival = (id: string) => RIVALS.find(r => r.id === id);
+
+  return (
+    <div className="w-full max-w-4xl max-h-[70vh] overflow-y-auto text-left bg-zinc-950/90 border-2 border-zinc-800 rounded-2xl p-8 space-y-8">
+      <div className="flex justify-between items-baseline border-b-2 border-rose-600 pb-2">
+        <span className="text-rose-500 font-black tracking-[0.4em] text-sm">THE UNDERGROUND WIRE</span>
+        <span className="text-zinc-500 text-xs font-bold">
+          {new Date(entry.date).toLocaleString()} · {entry.stageName} · P{entry.position}{entry.time !== null && ` · ${formatTime(entry.time)}`}
+        </span>
+      </div>
+
+      <div>
+        <h3 className="text-4xl font-black text-white italic leading-tight mb-4">{recap.headline}</h3>
+        <p className="text-zinc-300 text-lg leading-relaxed font-sans">{recap.summary}</p>
+      </div>
+
+      {recap.eventHighlights.length > 0 && (
+        <div>
+          <h4 className="flex items-center gap-2 text-amber-400 font-black text-sm tracking-widest mb-3"><Radio className="w-4 h-4" /> SCANNER LOG</h4>
+          <ul className="space-y-2 font-sans">
+            {recap.eventHighlights.map((h, i) => <li key={i} className="text-zinc-300 border-l-2 border-amber-500 pl-3">{h}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {recap.rivalQuotes.length > 0 && (
+        <div>
+          <h4 className="flex items-center gap-2 text-cyan-400 font-black text-sm tracking-widest mb-3"><MessageSquare className="w-4 h-4" /> INCOMING MESSAGES</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {recap.rivalQuotes.map(q => (
+              <div key={q.rivalId} className="bg-zinc-900 rounded-xl px-4 py-3 border-l-4" style={{ borderColor: rival(q.rivalId)?.color || '#666' }}>
+                <div className="flex justify-between text-xs font-black mb-1">
+                  <span style={{ color: rival(q.rivalId)?.color }}>{rival(q.rivalId)?.name || q.rivalId.toUpperCase()}</span>
+                  <span className="text-zinc-500 uppercase">{q.mood}</span>
+                </div>
+                <p className="text-zinc-200 font-sans">"{q.quote}"</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {recap.forumBuzz.length > 0 && (
+        <div>
+          <h4 className="text-green-400 font-black text-sm tracking-widest mb-3">/r/LAUNDERGROUND</h4>
+          <div className="space-y-2 font-sans">
+            {recap.forumBuzz.map((post, i) => (
+              <div key={i} className="flex gap-4 items-start bg-zinc-900/60 rounded-lg px-4 py-2">
+                <div className="flex flex-col items-center text-zinc-500 text-xs font-bold w-10">
+                  <ArrowBigUp className="w-5 h-5" />{post.upvotes}
+                </div>
+                <div>
+                  <div className="text-xs text-zinc-500 font-bold">u/{post.user}</div>
+                  <p className="text-zinc-200">{post.text}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <p className="text-right text-zinc-600 text-xs font-bold tracking-widest">
+        {entry.source === 'gemini' ? 'FILED VIA NEURAL WIRE' : 'FILED BY THE LOCAL DESK'}
+      </p>
+    </div>
+  );
+};
+
+export default RecapFeed;
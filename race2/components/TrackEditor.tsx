@@ -0,0 +1,433 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Plus, Trash2, Car, Download, Upload, FilePlus, Brush, Eraser, MousePointer2 } from 'lucide-react';
+import { BackdropLayer, SceneryRule, TrackDefinition, WeatherKind } from '../types';
+import { WEATHER, WEATHER_KINDS } from '../game/weather';
+import { BACKDROP_LAYERS, DEFAULT_BACKDROP } from '../game/scenery';
+import { MAX_CURVE, MAX_HILL, TrackError, formatTrackError, parseTrack, serializeTrack, validateTrack } from '../game/trackLoader';
+import { OutlinePoint, SceneryBrush, bendSection, eraseScenery, insertSection, newTrack, paintScenery, removeSection, sectionStarts, trackOutline, updateSection } from '../game/trackEditor';
+
+const MAP_SIZE = 400;
+const MAP_MARGIN = 24;
+const PROFILE_HEIGHT = 110;
+// How close (canvas pixels) a click has to be to pick a handle or a point on the road.
+const PICK_RADIUS = 14;
+// Hill height per pixel dragged on the elevation profile.
+const HILL_PER_PIXEL = 20;
+
+const SCENERY_COLORS: Record<SceneryRule['type'], string> = {
+  tree: '#2ecc71',
+  streetlight: '#f1c40f',
+  billboard: '#e84393',
+  building: '#95a5a6'
+};
+
+type Tool = 'select' | 'paint' | 'erase';
+
+interface View {
+  minX: number;
+  minY: number;
+  scale: number;
+  offX: number;
+  offY: number;
+}
+
+type Drag =
+  | { kind: 'end'; index: number }
+  | { kind: 'hill'; index: number; startY: number; hill: number }
+  | { kind: 'stroke' };
+
+// Fits the whole outline in the map, keeping its proportions.
+const fitView = (points: OutlinePoint[]): View => {
+  const xs = points.map(p => p.x), ys = points.map(p => p.y);
+  const minX = Math.min(...xs), minY = Math.min(...ys);
+  const w = Math.max(...xs) - minX, h = Math.max(...ys) - minY;
+  const scale = (MAP_SIZE - MAP_MARGIN * 2) / Math.max(w, h, 1);
+  return { minX, minY, scale, offX: (MAP_SIZE - w * scale) / 2, offY: (MAP_SIZE - h * scale) / 2 };
+};
+
+const toScreen = (v: View, p: { x: number; y: number }) => ({ x: v.offX + (p.x - v.minX) * v.scale, y: MAP_SIZE - v.offY - (p.y - v.minY) * v.scale });
+const toWorld = (v: View, x: number, y: number) => ({ x: v.minX + (x - v.offX) / v.scale, y: v.minY + (MAP_SIZE - v.offY - y) / v.scale });
+
+// Canvas pixel under the mouse, whatever size the canvas is shown at.
+const canvasPos = (e: React.MouseEvent<HTMLCanvasElement>) => {
+  const rect = e.currentTarget.getBoundingClientRect();
+  return { x: (e.clientX - rect.left) * e.currentTarget.width / rect.width, y: (e.clientY - rect.top) * e.currentTarget.height / rect.height };
+};
+
+const Slider: React.FC<{ label: string; value: number; min: number; max: number; step: number; onChange: (v: number) => void }> = ({ label, value, min, max, step, onChange }) => (
+  <label className="flex items-center gap-3 text-xs font-bold text-zinc-400">
+    <span className="w-20">{label}</span>
+    <input type="range" min={min} max={max} step={step} value={value} onChange={e => onChange(Number(e.target.value))} className="flex-1 accent-cyan-400" />
+    <span className="w-12 text-right text-white">{value}</span>
+  </label>
+);
+
+interface TrackEditorProps {
+  track: TrackDefinition;
+  onChange: (track: TrackDefinition) => void;
+  // Segment the pseudo-3D preview is looking from.
+  previewSegment: number;
+  onPreview: (segment: number) => void;
+  onTestDrive: () => void;
+  onExit: () => void;
+  // How the last test drive went, if there was one.
+  notice: string | null;
+}
+
+/** Top-down layout, elevation profile and section inspector for a track; the race renderer previews it. */
+const TrackEditor: React.FC<TrackEditorProps> = ({ track, onChange, previewSegment, onPreview, onTestDrive, onExit, notice }) => {
+  const mapRef = useRef<HTMLCanvasElement>(null);
+  const profileRef = useRef<HTMLCanvasElement>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+
+  const [selected, setSelected] = useState(0);
+  const [tool, setTool] = useState<Tool>('select');
+  const [brush, setBrush] = useState<SceneryBrush>({ type: 'tree', side: 'both', every: 10 });
+  const [stroke, setStroke] = useState<{ from: number; to: number } | null>(null);
+  // The map holds still while a handle is dragged, or the handle would run away from the mouse.
+  const [frozenView, setFrozenView] = useState<View | null>(null);
+  const [importErrors, setImportErrors] = useState<TrackError[]>([]);
+
+  const outline = useMemo(() => trackOutline(track), [track]);
+  const starts = useMemo(() => sectionStarts(track), [track]);
+  const errors = useMemo(() => validateTrack(track).errors, [track]);
+  const view = frozenView ?? fitView(outline);
+  const total = starts[starts.length - 1];
+  const current = Math.min(selected, track.sections.length - 1);
+  const section = track.sections[current];
+
+  // An import's errors stand until the next edit.
+  useEffect(() => setImportErrors([]), [track]);
+
+  // --- MAP ---
+  useEffect(() => {
+    const ctx = mapRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = '#09090b';
+    ctx.fillRect(0, 0, MAP_SIZE, MAP_SIZE);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    // Road, one stroke per section
+    track.sections.forEach((_, i) => {
+      ctx.strokeStyle = i === current ? '#22d3ee' : '#52525b';
+      ctx.lineWidth = i === current ? 7 : 5;
+      ctx.beginPath();
+      for (let k = starts[i]; k <= starts[i + 1]; k++) {
+        const s = toScreen(view, outline[k]);
+        if (k === starts[i]) ctx.moveTo(s.x, s.y); else ctx.lineTo(s.x, s.y);
+      }
+      ctx.stroke();
+    });
+
+    // Painting or erasing in progress
+    if (stroke) {
+      ctx.strokeStyle = tool === 'erase' ? 'rgba(244,63,94,0.8)' : 'rgba(46,204,113,0.8)';
+      ctx.lineWidth = 12;
+      ctx.beginPath();
+      for (let k = Math.min(stroke.from, stroke.to); k <= Math.max(stroke.from, stroke.to); k++) {
+        const s = toScreen(view, outline[k]);
+        ctx.lineTo(s.x, s.y);
+      }
+      ctx.stroke();
+    }
+
+    // Scenery, either side of the road
+    track.scenery.forEach(rule => {
+      const start = rule.start ?? 0;
+      ctx.fillStyle = SCENERY_COLORS[rule.type];
+      ctx.globalAlpha = rule.side === 'random' ? 0.5 : 1;
+      const sides = rule.side === 'left' ? [-1] : rule.side === 'right' ? [1] : [-1, 1];
+      for (let k = Math.max(start, rule.from ?? 0); k < Math.min(total, rule.to ?? total); k++) {
+        if ((k - start) % rule.every !== 0) continue;
+        const p = outline[k];
+        const s = toScreen(view, p);
+        sides.forEach(side => {
+          ctx.beginPath();
+          ctx.arc(s.x + side * Math.cos(p.heading) * 7, s.y + side * Math.sin(p.heading) * 7, 2, 0, Math.PI * 2);
+          ctx.fill();
+        });
+      }
+    });
+    ctx.globalAlpha = 1;
+
+    // Start, checkpoints and finish
+    const marker = (k: number, color: string) => {
+      const p = outline[k], s = toScreen(view, p);
+      const nx = Math.cos(p.heading) * 9, ny = Math.sin(p.heading) * 9;
+      ctx.strokeStyle = color; ctx.lineWidth = 3;
+      ctx.beginPath(); ctx.moveTo(s.x - nx, s.y - ny); ctx.lineTo(s.x + nx, s.y + ny); ctx.stroke();
+    };
+    marker(0, '#2ecc71');
+    track.checkpoints?.forEach(m => marker(m, '#f39c12'));
+    marker(total, '#ffffff');
+
+    // Section end handles
+    track.sections.forEach((_, i) => {
+      const s = toScreen(view, outline[starts[i + 1]]);
+      ctx.fillStyle = i === current ? '#22d3ee' : '#e4e4e7';
+      ctx.beginPath(); ctx.arc(s.x, s.y, 6, 0, Math.PI * 2); ctx.fill();
+    });
+
+    // Where the preview is looking from
+    const eye = outline[Math.min(previewSegment, total)];
+    const e = toScreen(view, eye);
+    ctx.save();
+    ctx.translate(e.x, e.y);
+    ctx.rotate(eye.heading);
+    ctx.fillStyle = '#f43f5e';
+    ctx.beginPath(); ctx.moveTo(0, -10); ctx.lineTo(6, 6); ctx.lineTo(-6, 6); ctx.closePath(); ctx.fill();
+    ctx.restore();
+  }, [track, outline, starts, view, current, stroke, tool, previewSegment, total]);
+
+  const nearestPoint = (x: number, y: number) => {
+    let best = 0, bestDist = Infinity;
+    outline.forEach((p, k) => {
+      const s = toScreen(view, p);
+      const d = Math.hypot(s.x - x, s.y - y);
+      if (d < bestDist) { best = k; bestDist = d; }
+    });
+    return { index: Math.min(best, total - 1), dist: bestDist };
+  };
+
+  const onMapDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const { x, y } = canvasPos(e);
+    if (tool === 'select') {
+      const handle = track.sections.findIndex((_, i) => {
+        const s = toScreen(view, outline[starts[i + 1]]);
+        return Math.hypot(s.x - x, s.y - y) < PICK_RADIUS;
+      });
+      if (handle >= 0) {
+        setSelected(handle);
+        setFrozenView(view);
+        dragRef.current = { kind: 'end', index: handle };
+        return;
+      }
+    }
+    const hit = nearestPoint(x, y);
+    if (hit.dist > PICK_RADIUS) return;
+    if (tool === 'select') {
+      setSelected(outline[hit.index].section);
+      onPreview(hit.index);
+    } else {
+      dragRef.current = { kind: 'stroke' };
+      setStroke({ from: hit.index, to: hit.index });
+    }
+  };
+
+  const onMapMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { x, y } = canvasPos(e);
+    if (drag.kind === 'end') onChange(bendSection(track, outline, drag.index, toWorld(view, x, y)));
+    else if (drag.kind === 'stroke') {
+      const to = nearestPoint(x, y).index;
+      setStroke(s => s && { ...s, to });
+    }
+  };
+
+  const endDrag = () => {
+    if (dragRef.current?.kind === 'stroke' && stroke) {
+      const from = Math.min(stroke.from, stroke.to), to = Math.max(stroke.from, stroke.to) + 1;
+      onChange(tool === 'erase' ? eraseScenery(track, from, to) : paintScenery(track, from, to, brush));
+    }
+    dragRef.current = null;
+    setStroke(null);
+    setFrozenView(null);
+  };
+
+  // --- ELEVATION PROFILE ---
+  useEffect(() => {
+    const ctx = profileRef.current?.getContext('2d');
+    if (!ctx) return;
+    const heights = outline.map(p => p.height);
+    const low = Math.min(0, ...heights), high = Math.max(0, ...heights);
+    const range = Math.max(high - low, 1000);
+    const px = (k: number) => k / total * MAP_SIZE;
+    const py = (h: number) => PROFILE_HEIGHT - 10 - (h - low) / range * (PROFILE_HEIGHT - 20);
+
+    ctx.fillStyle = '#09090b';
+    ctx.fillRect(0, 0, MAP_SIZE, PROFILE_HEIGHT);
+    track.sections.forEach((_, i) => {
+      ctx.fillStyle = i === current ? 'rgba(34,211,238,0.2)' : i % 2 ? '#18181b' : '#111113';
+      ctx.fillRect(px(starts[i]), 0, px(starts[i + 1]) - px(starts[i]), PROFILE_HEIGHT);
+    });
+    ctx.strokeStyle = '#e4e4e7'; ctx.lineWidth = 2;
+    ctx.beginPath();
+    heights.forEach((h, k) => k === 0 ? ctx.moveTo(px(k), py(h)) : ctx.lineTo(px(k), py(h)));
+    ctx.stroke();
+    ctx.fillStyle = '#f43f5e';
+    ctx.fillRect(px(Math.min(previewSegment, total)) - 1, 0, 2, PROFILE_HEIGHT);
+  }, [track, outline, starts, current, previewSegment, total]);
+
+  const onProfileDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const { x, y } = canvasPos(e);
+    const k = Math.max(0, Math.min(total - 1, Math.floor(x / MAP_SIZE * total)));
+    const index = outline[k].section;
+    setSelected(index);
+    dragRef.current = { kind: 'hill', index, startY: y, hill: track.sections[index].hill };
+  };
+
+  const onProfileMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (drag?.kind !== 'hill') return;
+    const hill = Math.round((drag.hill + (drag.startY - canvasPos(e).y) * HILL_PER_PIXEL) / 10) * 10;
+    onChange(updateSection(track, drag.index, { hill: Math.max(-MAX_HILL, Math.min(MAX_HILL, hill)) }));
+  };
+
+  // --- FILES ---
+  const exportTrack = () => {
+    const url = URL.createObjectURL(new Blob([serializeTrack(track)], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${track.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'track'}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importTrack = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    e.target.value = '';
+    if (!picked) return;
+    picked.text()
+      .then(text => {
+        const result = parseTrack(text);
+        setImportErrors(result.errors);
+        if (result.track) {
+          onChange(result.track);
+          setSelected(0);
+          onPreview(0);
+        }
+      })
+      .catch(err => setImportErrors([{ line: 0, path: '', message: err instanceof Error ? err.message : String(err) }]));
+  };
+
+  const shown = importErrors.length ? importErrors : errors;
+  const toolButton = (id: Tool, icon: React.ReactNode, label: string) => (
+    <button onClick={() => setTool(id)}
+      className={`flex-1 flex items-center justify-center gap-2 py-2 text-xs font-black rounded ${tool === id ? 'bg-cyan-400 text-black' : 'bg-zinc-900 text-zinc-400 hover:text-white'}`}>
+      {icon} {label}
+    </button>
+  );
+
+  // Layers stay farthest first, whichever order they are switched on in
+  const backdrop = track.backdrop ?? DEFAULT_BACKDROP;
+  const toggleBackdrop = (layer: BackdropLayer) =>
+    onChange({ ...track, backdrop: BACKDROP_LAYERS.filter(l => l === layer ? !backdrop.includes(l) : backdrop.includes(l)) });
+
+  return (
+    <div className="absolute left-0 top-0 bottom-0 z-40 w-[448px] overflow-y-auto bg-black/90 border-r border-zinc-800 p-6 space-y-5 text-white font-orbitron">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-black italic text-cyan-400">TRACK EDITOR</h2>
+        <button onClick={onExit} className="text-xs font-black text-zinc-500 hover:text-white">EXIT</button>
+      </div>
+
+      <div className="flex gap-3">
+        <input value={track.name} onChange={e => onChange({ ...track, name: e.target.value.toUpperCase() })}
+          className="flex-1 bg-zinc-900 border border-zinc-700 rounded px-3 py-2 font-black text-sm" />
+        <input type="color" value={track.color} onChange={e => onChange({ ...track, color: e.target.value })}
+          className="w-12 h-10 bg-zinc-900 border border-zinc-700 rounded" />
+        <select value={track.weather ?? 'clear'} onChange={e => onChange({ ...track, weather: e.target.value as WeatherKind })}
+          className="bg-zinc-900 border border-zinc-700 rounded px-2 text-xs font-bold">
+          {WEATHER_KINDS.map(w => <option key={w} value={w}>{WEATHER[w].name}</option>)}
+        </select>
+      </div>
+
+      <div className="flex gap-2">
+        {BACKDROP_LAYERS.map(layer => (
+          <button key={layer} onClick={() => toggleBackdrop(layer)}
+            className={`flex-1 py-1 text-[10px] font-black uppercase rounded ${backdrop.includes(layer) ? 'bg-zinc-700 text-white' : 'bg-zinc-900 text-zinc-500 hover:text-white'}`}>
+            {layer}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        {toolButton('select', <MousePointer2 className="w-4 h-4" />, 'SHAPE')}
+        {toolButton('paint', <Brush className="w-4 h-4" />, 'PAINT')}
+        {toolButton('erase', <Eraser className="w-4 h-4" />, 'ERASE')}
+      </div>
+
+      <canvas ref={mapRef} width={MAP_SIZE} height={MAP_SIZE} onMouseDown={onMapDown} onMouseMove={onMapMove} onMouseUp={endDrag} onMouseLeave={endDrag}
+        className="w-full rounded border border-zinc-800 cursor-crosshair" />
+      <canvas ref={profileRef} width={MAP_SIZE} height={PROFILE_HEIGHT} onMouseDown={onProfileDown} onMouseMove={onProfileMove} onMouseUp={endDrag} onMouseLeave={endDrag}
+        className="w-full rounded border border-zinc-800 cursor-ns-resize" />
+      <p className="text-[10px] text-zinc-500 font-bold leading-relaxed">
+        {tool === 'select'
+          ? 'DRAG A HANDLE TO BEND AND STRETCH ITS SECTION. DRAG THE PROFILE UP OR DOWN FOR HILLS. CLICK THE ROAD TO PREVIEW FROM THERE.'
+          : `DRAG ALONG THE ROAD TO ${tool === 'paint' ? 'PLANT' : 'CLEAR'} SCENERY.`}
+      </p>
+
+      <Slider label="PREVIEW" value={Math.min(previewSegment, total - 1)} min={0} max={total - 1} step={1} onChange={onPreview} />
+
+      {tool === 'paint' && (
+        <div className="space-y-3 bg-zinc-900/60 rounded-xl p-4">
+          <div className="flex gap-2">
+            <select value={brush.type} onChange={e => setBrush(b => ({ ...b, type: e.target.value as SceneryRule['type'] }))}
+              className="flex-1 bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs font-bold uppercase">
+              {Object.keys(SCENERY_COLORS).map(t => <option key={t} value={t}>{t}</option>)}
+            </select>
+            <select value={brush.side} onChange={e => setBrush(b => ({ ...b, side: e.target.value as SceneryRule['side'] }))}
+              className="flex-1 bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs font-bold uppercase">
+              {['left', 'right', 'both', 'random'].map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+          </div>
+          <Slider label="EVERY" value={brush.every} min={1} max={60} step={1} onChange={every => setBrush(b => ({ ...b, every }))} />
+        </div>
+      )}
+
+      <div className="space-y-3 bg-zinc-900/60 rounded-xl p-4">
+        <div className="flex justify-between items-center">
+          <span className="text-sm font-black text-cyan-400">SECTION {current + 1} / {track.sections.length}</span>
+          <div className="flex gap-2">
+            <button onClick={() => { onChange(insertSection(track, current)); }} title="Insert before"
+              className="p-1 text-zinc-400 hover:text-white"><Plus className="w-4 h-4 -scale-x-100" /></button>
+            <button onClick={() => { onChange(insertSection(track, current + 1)); setSelected(current + 1); }} title="Insert after"
+              className="p-1 text-zinc-400 hover:text-white"><Plus className="w-4 h-4" /></button>
+            <button onClick={() => onChange(removeSection(track, current))} disabled={track.sections.length <= 1} title="Delete"
+              className="p-1 text-zinc-400 hover:text-rose-500 disabled:opacity-30"><Trash2 className="w-4 h-4" /></button>
+          </div>
+        </div>
+        <Slider label="LENGTH" value={section.length} min={1} max={200} step={1} onChange={length => onChange(updateSection(track, current, { length }))} />
+        <Slider label="CURVE" value={section.curve} min={-MAX_CURVE} max={MAX_CURVE} step={0.1} onChange={curve => onChange(updateSection(track, current, { curve }))} />
+        <Slider label="HILL" value={section.hill} min={-MAX_HILL} max={MAX_HILL} step={10} onChange={hill => onChange(updateSection(track, current, { hill }))} />
+        <Slider label="TRAFFIC" value={section.traffic ?? 1} min={0} max={3} step={0.1} onChange={traffic => onChange(updateSection(track, current, { traffic }))} />
+      </div>
+
+      <div className="bg-zinc-900/60 rounded-xl p-4 space-y-2">
+        <Slider label="VEHICLES" value={track.traffic.vehicles} min={0} max={300} step={10}
+          onChange={vehicles => onChange({ ...track, traffic: { ...track.traffic, vehicles } })} />
+        <Slider label="ONCOMING %" value={Math.round((track.traffic.oncoming ?? 0) * 100)} min={0} max={100} step={10}
+          onChange={share => onChange({ ...track, traffic: { ...track.traffic, oncoming: share / 100 } })} />
+      </div>
+
+      {shown.length > 0 && (
+        <ul className="text-xs font-bold text-rose-500 space-y-1 font-sans">
+          {shown.slice(0, 8).map((err, i) => <li key={i}>{formatTrackError(err)}</li>)}
+        </ul>
+      )}
+      {notice && <p className="text-sm font-black text-amber-400">{notice}</p>}
+
+      <button onClick={onTestDrive} disabled={errors.length > 0}
+        className="w-full py-4 bg-cyan-500 text-black font-black text-xl hover:bg-white transition-all disabled:bg-zinc-800 disabled:text-zinc-600">
+        <Car className="inline mr-2 w-6 h-6" /> TEST DRIVE
+      </button>
+      <div className="flex gap-2">
+        <button onClick={exportTrack} className="flex-1 py-2 border-2 border-zinc-700 text-zinc-300 font-black text-xs hover:border-cyan-400 hover:text-cyan-400">
+          <Download className="inline mr-1 w-4 h-4" /> EXPORT
+        </button>
+        <button onClick={() => importRef.current?.click()} className="flex-1 py-2 border-2 border-zinc-700 text-zinc-300 font-black text-xs hover:border-cyan-400 hover:text-cyan-400">
+          <Upload className="inline mr-1 w-4 h-4" /> IMPORT
+        </button>
+        <button onClick={() => { if (window.confirm('Discard this track and start a new one?')) { onChange(newTrack()); setSelected(0); setImportErrors([]); onPreview(0); } }}
+          className="flex-1 py-2 border-2 border-zinc-700 text-zinc-300 font-black text-xs hover:border-rose-500 hover:text-rose-500">
+          <FilePlus className="inline mr-1 w-4 h-4" /> NEW
+        </button>
+        <input ref={importRef} type="file" accept="application/json,.json" className="hidden" onChange={importTrack} />
+      </div>
+    </div>
+  );
+};
+
+export default TrackEditor;
@@ -0,0 +1,65 @@
+import { Archetype, Bounty, EventLogEntry, Opponent, RaceState } from "../types";
+import { FEUD_GRUDGE, feelingsFor } from "./relationships";
+
+// Seconds an offer of an alliance stays open for the player to answer.
+export const OFFER_TIME = 5;
+// How close (world z) a rival has to be for the player to put an offer to it.
+export const PROPOSE_RANGE = 3000;
+// Share of a claimed bounty the claimer hands to its ally.
+export const ALLY_SHARE = 0.5;
+// Predators only ride with someone they respect at least this much.
+const PREDATOR_RESPECT = 20;
+
+const who = (id: string) => id === 'player' ? 'Player' : id.toUpperCase();
+
+/** allianceMap key for a pair of racers, the same whichever way round they are given. */
+export const allianceKey = (a: string, b: string) => [a, b].sort().join('+');
+
+export const areAllied = (race: RaceState, a: string, b: string) => a !== b && !!race.allianceMap[allianceKey(a, b)];
+
+/** The racer `id` is allied with, if any. Nobody rides in more than one alliance. */
+export const allyOf = (race: RaceState, id: string) => {
+  const pair = Object.keys(race.allianceMap).find(k => race.allianceMap[k] && k.split('+').includes(id));
+  return pair?.split('+').find(other => other !== id);
+};
+
+/** Whether rival `o` would ride with `otherId`: never a chaos agent, and never someone it has a feud with. */
+export const willAlly = (o: Opponent, otherId: string) => {
+  const r = feelingsFor(o, otherId);
+  if (o.archetype === Archetype.ChaosAgent || r.grudge >= FEUD_GRUDGE) return false;
+  return o.archetype === Archetype.Predator ? r.respect >= PREDATOR_RESPECT : r.respect + r.fear >= r.grudge;
+};
+
+/** Allies `a` and `b`, provided neither is already in an alliance. Returns the event, or null. */
+export const formAlliance = (race: RaceState, a: string, b: string, tick: number): EventLogEntry | null => {
+  if (a === b || allyOf(race, a) || allyOf(race, b)) return null;
+  race.allianceMap[allianceKey(a, b)] = true;
+  return { type: 'alliance', actor: a, target: b, tick, description: `${who(a)} and ${who(b)} team up` };
+};
+
+/** Ends `betrayer`'s alliance with `other`, on `betrayer`'s say-so. Returns the event, or null if they weren't allies. */
+export const breakAlliance = (race: RaceState, betrayer: string, other: string, tick: number, reason?: string): EventLogEntry | null => {
+  if (!areAllied(race, betrayer, other)) return null;
+  delete race.allianceMap[allianceKey(betrayer, other)];
+  return { type: 'betrayal', actor: betrayer, target: other, tick, description: `${who(betrayer)} betrays ${who(other)}${reason ? `: ${reason}` : ''}` };
+};
+
+/** Puts an offer from rival `from` to the player, unless one is already waiting or either side is taken. */
+export const offerAlliance = (race: RaceState, from: string, tick: number): EventLogEntry | null => {
+  if (race.allianceOffer || allyOf(race, from) || allyOf(race, 'player')) return null;
+  race.allianceOffer = { from, timer: OFFER_TIME };
+  return { type: 'allianceOffer', actor: from, target: 'player', tick, description: `${who(from)} offers the player an alliance` };
+};
+
+/**
+ * Splits a freshly claimed bounty with the claimer's ally. Returns the event and what it
+ * does to the player's cash (negative when the player is the one paying out), or null.
+ */
+export const shareBounty = (race: RaceState, b: Bounty, tick: number) => {
+  const ally = b.claimedBy && allyOf(race, b.claimedBy);
+  if (!ally) return null;
+  const cut = Math.round(b.amount * ALLY_SHARE);
+  const toPlayer = b.claimedBy === 'player' ? -cut : ally === 'player' ? cut : 0;
+  const event: EventLogEntry = { type: 'bountyShared', actor: b.claimedBy!, target: ally, tick, description: `${who(b.claimedBy!)} splits $${cut} of a bounty with ${who(ally)}` };
+  return { event, toPlayer };
+};
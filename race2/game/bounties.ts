@@ -0,0 +1,149 @@
+import { Archetype, Bounty, EventLogEntry } from "../types";
+
+// Seconds a hunter has to sit in front of its target to complete a 'block' bounty.
+export const BLOCK_TIME = 3;
+// How close (world z) a hunter must be when the target crashes to claim a 'crash' bounty.
+const CRASH_CREDIT_RANGE = 600;
+const BLOCK_RANGE = 400;
+const BLOCK_WIDTH = 0.4;
+
+/** What the bounty rules need to know about each racer on a given tick. */
+export interface BountyRacer {
+  id: string;
+  x: number;
+  z: number;
+  crashed: boolean;
+}
+
+/** Status changes from one evaluation, plus what they mean for the player's cash. */
+export interface BountyOutcome {
+  events: EventLogEntry[];
+  payout: number;
+}
+
+const describe = (b: Bounty) => `$${b.amount} on ${b.targetId.toUpperCase()} (${b.condition})`;
+
+const resolve = (b: Bounty, status: 'complete' | 'failed', tick: number, outcome: BountyOutcome, winner?: string) => {
+  b.status = status;
+  if (status === 'complete') {
+    b.claimedBy = winner;
+    if (winner === 'player') outcome.payout += b.amount;
+    outcome.events.push({ type: 'bountyComplete', actor: winner || b.initiatorId, target: b.targetId, tick, description: `Bounty claimed: ${describe(b)}` });
+  } else {
+    // The player's stake comes back when nobody collects on it.
+    if (b.initiatorId === 'player') outcome.payout += b.amount;
+    outcome.events.push({ type: 'bountyFailed', actor: b.initiatorId, target: b.targetId, tick, description: `Bounty expired: ${describe(b)}` });
+  }
+};
+
+export const postBounty = (
+  bounties: Bounty[],
+  initiatorId: string,
+  targetId: string,
+  amount: number,
+  condition: Bounty['condition'],
+  visibility: Bounty['visibility'],
+  tick: number
+): EventLogEntry => {
+  const bounty: Bounty = {
+    id: `bounty-${bounties.length + 1}`,
+    initiatorId,
+    targetId,
+    amount,
+    visibility,
+    condition,
+    acceptedBy: [],
+    status: 'active'
+  };
+  bounties.push(bounty);
+  return { type: 'bountyPosted', actor: initiatorId, target: targetId, tick, description: `Bounty posted: ${describe(bounty)}` };
+};
+
+/**
+ * Contracts the rivals put out as the flag drops. Amounts grow with the stage so later
+ * races are worth more to whoever collects.
+ */
+export const seedRivalBounties = (
+  bounties: Bounty[],
+  rivals: { id: string; archetype: Archetype }[],
+  stageIndex: number,
+  tick: number
+): EventLogEntry[] => {
+  const amount = 200 + stageIndex * 100;
+  const events: EventLogEntry[] = [];
+  const predator = rivals.find(r => r.archetype === Archetype.Predator);
+  const strategist = rivals.find(r => r.archetype === Archetype.Strategist);
+  const chaos = rivals.find(r => r.archetype === Archetype.ChaosAgent);
+
+  if (predator) events.push(postBounty(bounties, predator.id, 'player', amount, 'crash', 'secret', tick));
+  if (strategist && predator) events.push(postBounty(bounties, strategist.id, predator.id, amount, 'finishBelow', 'public', tick));
+  if (chaos) {
+    const victim = rivals[(rivals.indexOf(chaos) + 1) % rivals.length];
+    if (victim.id !== chaos.id) events.push(postBounty(bounties, chaos.id, victim.id, Math.round(amount / 2), 'block', 'public', tick));
+  }
+  return events;
+};
+
+/** Adds a hunter to an open bounty. Returns null when the bounty can't take them. */
+export const acceptBounty = (bounties: Bounty[], bountyId: string, hunterId: string, tick: number): EventLogEntry | null => {
+  const b = bounties.find(x => x.id === bountyId);
+  if (!b || b.status !== 'active' || hunterId === b.targetId || hunterId === b.initiatorId || b.acceptedBy.includes(hunterId)) return null;
+  b.acceptedBy.push(hunterId);
+  return { type: 'bountyAccepted', actor: hunterId, target: b.targetId, tick, description: `${hunterId.toUpperCase()} is hunting ${describe(b)}` };
+};
+
+/** The newest public bounty the player could still sign up for. */
+export const openBountyFor = (bounties: Bounty[], hunterId: string): Bounty | undefined =>
+  [...bounties].reverse().find(b =>
+    b.status === 'active' && b.visibility === 'public' &&
+    b.targetId !== hunterId && b.initiatorId !== hunterId && !b.acceptedBy.includes(hunterId));
+
+/**
+ * Checks the in-race conditions ('crash' and 'block') for every active bounty. 'finishBelow'
+ * can only be decided at the line, see settleBounties.
+ */
+export const evaluateBounties = (bounties: Bounty[], racers: BountyRacer[], dt: number, tick: number): BountyOutcome => {
+  const outcome: BountyOutcome = { events: [], payout: 0 };
+  const byId = new Map(racers.map(r => [r.id, r]));
+
+  bounties.forEach(b => {
+    if (b.status !== 'active' || b.acceptedBy.length === 0) return;
+    const target = byId.get(b.targetId);
+    if (!target) return;
+    const hunters = b.acceptedBy.map(id => byId.get(id)).filter((r): r is BountyRacer => !!r);
+
+    if (b.condition === 'crash' && target.crashed) {
+      const nearest = hunters
+        .filter(h => Math.abs(h.z - target.z) < CRASH_CREDIT_RANGE)
+        .sort((a, c) => Math.abs(a.z - target.z) - Math.abs(c.z - target.z))[0];
+      if (nearest) resolve(b, 'complete', tick, outcome, nearest.id);
+    } else if (b.condition === 'block') {
+      const blocker = hunters.find(h => h.z > target.z && h.z - target.z < BLOCK_RANGE && Math.abs(h.x - target.x) < BLOCK_WIDTH);
+      if (!blocker) return;
+      b.progress = (b.progress || 0) + dt;
+      if (b.progress >= BLOCK_TIME) resolve(b, 'complete', tick, outcome, blocker.id);
+    }
+  });
+
+  return outcome;
+};
+
+/**
+ * Closes every bounty still active at the end of a race. A 'finishBelow' bounty goes to the
+ * best-placed hunter that finished ahead of the target; everything else left open has failed.
+ */
+export const settleBounties = (bounties: Bounty[], finishOrder: string[], tick: number): BountyOutcome => {
+  const outcome: BountyOutcome = { events: [], payout: 0 };
+
+  bounties.forEach(b => {
+    if (b.status !== 'active') return;
+    if (b.condition === 'finishBelow') {
+      const targetPos = finishOrder.indexOf(b.targetId);
+      const winner = finishOrder.find((id, pos) => b.acceptedBy.includes(id) && pos < targetPos);
+      if (winner) return resolve(b, 'complete', tick, outcome, winner);
+    }
+    resolve(b, 'failed', tick, outcome);
+  });
+
+  return outcome;
+};
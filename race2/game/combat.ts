@@ -0,0 +1,138 @@
+import { Opponent, Rng, Stage, Weapon, WeaponPickup, WeaponType } from "../types";
+import { SEGMENT_LENGTH } from "./track";
+
+/** How a strike lands: furthest reach to the side (road widths), damage, and how far it shoves. */
+export interface StrikeStats {
+  reach: number;
+  damage: number;
+  knockback: number;
+}
+
+export const FISTS: StrikeStats = { reach: 0.7, damage: 25, knockback: 0.25 };
+// A kick lands on either side but doesn't reach far; it is for shoving, not for damage.
+export const KICK: StrikeStats = { reach: 0.6, damage: 15, knockback: 0.9 };
+export const WEAPONS: Record<WeaponType, StrikeStats & { uses: number }> = {
+  chain: { reach: 1.0, damage: 30, knockback: 0.2, uses: 12 },
+  club: { reach: 0.75, damage: 45, knockback: 0.5, uses: 8 }
+};
+
+// Strikes only land on a bike this close (world z) ahead or behind.
+export const STRIKE_RANGE = 250;
+// Anything nearer than this to the side is too close to swing at.
+const STRIKE_INSIDE = 0.1;
+// Seconds the player's punch and kick take, and so the gap before the next one.
+export const PUNCH_TIME = 0.4;
+export const KICK_TIME = 0.7;
+// The player's guard: how long it is up, and how long before it can go up again.
+export const BLOCK_WINDOW = 0.3;
+export const BLOCK_COOLDOWN = 0.9;
+// Rivals: seconds of visible wind-up before the blow, a quicker one when hitting back,
+// how long the blow itself shows, and the gap before the next swing.
+export const RIVAL_WINDUP = 0.45;
+export const COUNTER_WINDUP = 0.3;
+const STRIKE_SHOW = 0.25;
+const RIVAL_COOLDOWN = 1.2;
+// Chance a rival hit by the player, and still upright, swings straight back.
+export const COUNTER_CHANCE = 0.4;
+// Rivals hit at this share of what the same blow does from the player.
+export const RIVAL_POWER = 0.5;
+// Seconds a blocked rival is thrown off its rhythm before it can swing again.
+export const BLOCK_STAGGER = 1.5;
+// Bikes can be shoved well onto the grass, but not off the world.
+const ROAD_LIMIT = 1.9;
+// Weapons lie every so many segments, with this chance each, and are grabbed this close.
+const PICKUP_SPACING = 50;
+const PICKUP_CHANCE = 0.6;
+const PICKUP_REACH = 0.35;
+
+/** What `weapon` (or bare hands) does when it connects. */
+export const strikeStats = (weapon?: Weapon): StrikeStats => weapon ? WEAPONS[weapon.type] : FISTS;
+
+/** Lays weapons along the road, clear of the start. */
+export const placePickups = (stage: Stage, rng: Rng): WeaponPickup[] => {
+  const pickups: WeaponPickup[] = [];
+  const types = Object.keys(WEAPONS) as WeaponType[];
+  for (let i = PICKUP_SPACING; i * SEGMENT_LENGTH < stage.length; i += PICKUP_SPACING) {
+    if (!rng.chance(PICKUP_CHANCE)) continue;
+    pickups.push({
+      id: `pickup-${pickups.length}`,
+      type: types[Math.floor(rng.next() * types.length)],
+      x: rng.range(-0.7, 0.7),
+      z: (i + rng.next()) * SEGMENT_LENGTH,
+      taken: false
+    });
+  }
+  return pickups;
+};
+
+/** The first weapon a bike at lateral `x` rode over moving from `prevZ` to `z`, if any. */
+export const pickupCrossed = (pickups: WeaponPickup[], x: number, prevZ: number, z: number) =>
+  pickups.find(w => !w.taken && w.z > prevZ && w.z <= z && Math.abs(w.x - x) < PICKUP_REACH);
+
+/** Hands a pickup's weapon over, replacing whatever the holder had. */
+export const takePickup = (holder: { weapon?: Weapon }, pickup: WeaponPickup) => {
+  pickup.taken = true;
+  holder.weapon = { type: pickup.type, uses: WEAPONS[pickup.type].uses };
+};
+
+/** Wears the holder's weapon down by one hit; it breaks when it runs out. */
+export const wearWeapon = (holder: { weapon?: Weapon }) => {
+  if (!holder.weapon) return;
+  holder.weapon.uses--;
+  if (holder.weapon.uses <= 0) holder.weapon = undefined;
+};
+
+/**
+ * Whether a strike from `attacker` to `side` (-1 left, 1 right) reaches `target`; a
+ * kick (side 0) reaches either way.
+ */
+export const inReach = (attacker: { x: number; z: number }, target: { x: number; z: number }, side: number, reach: number) => {
+  if (Math.abs(target.z - attacker.z) >= STRIKE_RANGE) return false;
+  const dx = target.x - attacker.x;
+  if (side === 0) return Math.abs(dx) < reach;
+  return dx * side > STRIKE_INSIDE && dx * side < reach;
+};
+
+/** Shoves a bike sideways, onto the grass if it is hard enough. */
+export const knockback = (target: { x: number }, shove: number) => {
+  target.x = Math.max(-ROAD_LIMIT, Math.min(ROAD_LIMIT, target.x + shove));
+};
+
+export const isWindingUp = (o: Opponent) => o.attackType === 'windupLeft' || o.attackType === 'windupRight';
+
+/** Whether a rival is free to start a swing: not mid-swing and not recovering from the last one. */
+export const canSwing = (o: Opponent) => !(o.attackTime && o.attackTime > 0) && !(o.attackCooldown && o.attackCooldown > 0);
+
+/** Starts a rival's wind-up towards `side` of it, aimed at `targetId`. The blow follows after `time`. */
+export const startWindup = (o: Opponent, targetId: string, side: number, time = RIVAL_WINDUP) => {
+  o.attackType = side < 0 ? 'windupLeft' : 'windupRight';
+  o.attackTime = time;
+  o.strikeTarget = targetId;
+};
+
+/** Stops a rival's swing before it lands, with `cooldown` seconds before it can try again. */
+export const interruptSwing = (o: Opponent, cooldown = 0) => {
+  o.attackType = 'normal';
+  o.attackTime = 0;
+  o.strikeTarget = undefined;
+  o.attackCooldown = Math.max(o.attackCooldown ?? 0, cooldown);
+};
+
+/**
+ * Runs a rival's swing forward. Returns the side (-1 / 1) of the blow on the tick its
+ * wind-up completes, and 0 on every other tick.
+ */
+export const updateRivalAttack = (o: Opponent, dt: number) => {
+  if (o.attackCooldown && o.attackCooldown > 0) o.attackCooldown -= dt;
+  if (!o.attackTime || o.attackTime <= 0) {
+    o.attackType = 'normal';
+    return 0;
+  }
+  o.attackTime -= dt;
+  if (o.attackTime > 0 || !isWindingUp(o)) return 0;
+  const side = o.attackType === 'windupLeft' ? -1 : 1;
+  o.attackType = side < 0 ? 'punchLeft' : 'punchRight';
+  o.attackTime = STRIKE_SHOW;
+  o.attackCooldown = RIVAL_COOLDOWN;
+  return side;
+};
@@ -0,0 +1,157 @@
+import { Garage, PartSlot, WeaponType } from "../types";
+
+/** How a bike rides and fights: its base stats, plus whatever the fitted parts add or take away. */
+export interface BikeStats {
+  // Top speed, and speed gained and lost (on the brakes) per second.
+  topSpeed: number;
+  accel: number;
+  braking: number;
+  // Steering multiplier; 1 is stock.
+  handling: number;
+  // Share of incoming damage soaked up.
+  armor: number;
+  // Multiplier on the damage the rider's strikes do.
+  power: number;
+  // Size of the nitro tank.
+  nitro: number;
+}
+
+export interface BikeModel {
+  id: string;
+  name: string;
+  price: number;
+  stats: BikeStats;
+  // The first is what it comes in; the rest cost PAINT_COST.
+  paints: string[];
+}
+
+export interface Part {
+  id: string;
+  name: string;
+  slot: PartSlot;
+  price: number;
+  mods: Partial<BikeStats>;
+  // Weapon parts put the weapon in the rider's hand at the start of every race.
+  weapon?: WeaponType;
+}
+
+export const PART_SLOTS: PartSlot[] = ['engine', 'tires', 'brakes', 'armor', 'nitro', 'weapon'];
+
+// Anything with a price of 0 is stock: every garage has it and it can't be sold.
+export const BIKES: BikeModel[] = [
+  { id: 'street', name: 'STREET 250', price: 0, stats: { topSpeed: 225, accel: 20, braking: 80, handling: 1, armor: 0, power: 1, nitro: 50 }, paints: ['#00ffff', '#ecf0f1', '#e67e22'] },
+  { id: 'apex', name: 'APEX 600', price: 2000, stats: { topSpeed: 255, accel: 24, braking: 95, handling: 1.15, armor: 0, power: 1, nitro: 60 }, paints: ['#ff4fd8', '#00ffff', '#b8ff3c'] },
+  { id: 'ironclad', name: 'IRONCLAD 900', price: 2500, stats: { topSpeed: 240, accel: 18, braking: 70, handling: 0.85, armor: 0.2, power: 1.5, nitro: 40 }, paints: ['#95a5a6', '#e67e22', '#ecf0f1'] },
+  { id: 'voltage', name: 'VOLTAGE R', price: 5000, stats: { topSpeed: 290, accel: 28, braking: 110, handling: 1.1, armor: 0, power: 1, nitro: 80 }, paints: ['#b8ff3c', '#ff4fd8', '#00ffff'] }
+];
+
+export const PARTS: Part[] = [
+  { id: 'stock-engine', name: 'STOCK ENGINE', slot: 'engine', price: 0, mods: {} },
+  { id: 'turbocore', name: 'TURBOCORE', slot: 'engine', price: 800, mods: { topSpeed: 25, accel: 3 } },
+  { id: 'big-bore', name: 'BIG BORE KIT', slot: 'engine', price: 1800, mods: { topSpeed: 50, accel: 6, braking: -10 } },
+  { id: 'stock-tires', name: 'STOCK TIRES', slot: 'tires', price: 0, mods: {} },
+  { id: 'road-tires', name: 'ROAD TIRES', slot: 'tires', price: 400, mods: { accel: 2, handling: 0.15 } },
+  { id: 'slick-tires', name: 'SLICK TIRES', slot: 'tires', price: 900, mods: { accel: 4, handling: 0.3, topSpeed: -5 } },
+  { id: 'stock-brakes', name: 'STOCK BRAKES', slot: 'brakes', price: 0, mods: {} },
+  { id: 'drilled-discs', name: 'DRILLED DISCS', slot: 'brakes', price: 400, mods: { braking: 40 } },
+  { id: 'carbon-brakes', name: 'CARBON BRAKES', slot: 'brakes', price: 1000, mods: { braking: 80, handling: 0.05 } },
+  { id: 'no-armor', name: 'NO ARMOR', slot: 'armor', price: 0, mods: {} },
+  { id: 'kevlar-pads', name: 'KEVLAR PADS', slot: 'armor', price: 500, mods: { armor: 0.15 } },
+  { id: 'spiked-armor', name: 'SPIKED ARMOR', slot: 'armor', price: 1200, mods: { armor: 0.3, power: 0.5, topSpeed: -10, accel: -2 } },
+  { id: 'no-nitro', name: 'STOCK BOTTLE', slot: 'nitro', price: 0, mods: {} },
+  { id: 'nitro-bottle', name: 'NITRO BOTTLE', slot: 'nitro', price: 700, mods: { nitro: 50 } },
+  { id: 'twin-bottles', name: 'TWIN BOTTLES', slot: 'nitro', price: 1500, mods: { nitro: 100, accel: -1, handling: -0.05 } },
+  { id: 'bare-hands', name: 'BARE HANDS', slot: 'weapon', price: 0, mods: {} },
+  { id: 'knuckles', name: 'BRASS KNUCKLES', slot: 'weapon', price: 400, mods: { power: 0.5 } },
+  { id: 'chain', name: 'CHAIN', slot: 'weapon', price: 600, mods: {}, weapon: 'chain' },
+  { id: 'club', name: 'CLUB', slot: 'weapon', price: 900, mods: {}, weapon: 'club' }
+];
+
+// Changing to one of the bike's other colours.
+export const PAINT_COST = 150;
+// Share of the price a used bike or part sells back for.
+export const RESALE = 0.5;
+// Cost of putting back one point of the bike's condition.
+const REPAIR_PER_POINT = 5;
+// Armour never stops more than this share of a hit.
+const MAX_ARMOR = 0.6;
+
+export const NEW_GARAGE: Garage = {
+  bike: 'street',
+  paint: BIKES[0].paints[0],
+  owned: [],
+  parts: { engine: 'stock-engine', tires: 'stock-tires', brakes: 'stock-brakes', armor: 'no-armor', nitro: 'no-nitro', weapon: 'bare-hands' },
+  condition: {}
+};
+
+export const bikeById = (id: string) => BIKES.find(b => b.id === id) ?? BIKES[0];
+export const partById = (id: string) => PARTS.find(p => p.id === id);
+const priceOf = (id: string) => partById(id)?.price ?? BIKES.find(b => b.id === id)?.price ?? 0;
+
+export const owns = (g: Garage, id: string) => priceOf(id) === 0 || g.owned.includes(id);
+/** Whether `id` is the bike being ridden or one of the parts fitted to it. */
+export const inUse = (g: Garage, id: string) => g.bike === id || Object.values(g.parts).includes(id);
+
+/** Health the bike being ridden has left; a bike that has never raced is in perfect shape. */
+export const conditionOf = (g: Garage) => g.condition[g.bike] ?? 100;
+
+/** The ridden bike's stats with every fitted part applied. */
+export const bikeStats = (g: Garage): BikeStats => {
+  const stats = { ...bikeById(g.bike).stats };
+  Object.values(g.parts).forEach(id => {
+    const mods = partById(id)?.mods ?? {};
+    (Object.keys(mods) as (keyof BikeStats)[]).forEach(k => { stats[k] += mods[k]!; });
+  });
+  stats.armor = Math.max(0, Math.min(MAX_ARMOR, stats.armor));
+  return stats;
+};
+
+/** The weapon the fitted weapon part starts each race with, if it is one. */
+export const startingWeapon = (g: Garage) => partById(g.parts.weapon)?.weapon;
+
+/** What the bike and everything fitted to it cost new. */
+export const kitValue = (g: Garage) => priceOf(g.bike) + Object.values(g.parts).reduce((sum, id) => sum + priceOf(id), 0);
+
+/** Adds a bought bike or part to the garage and puts it straight into use. The caller takes the money. */
+export const buyItem = (g: Garage, id: string): Garage => fitItem({ ...g, owned: g.owned.includes(id) ? g.owned : [...g.owned, id] }, id);
+
+/** Rides an owned bike, in its own first colour, or bolts an owned part into its slot. */
+export const fitItem = (g: Garage, id: string): Garage => {
+  if (!owns(g, id)) return g;
+  const part = partById(id);
+  if (part) return { ...g, parts: { ...g.parts, [part.slot]: id } };
+  return { ...g, bike: id, paint: bikeById(id).paints[0] };
+};
+
+/** What an owned, unused bike or part sells for, or 0 if it can't be sold. */
+export const resaleValue = (g: Garage, id: string) =>
+  g.owned.includes(id) && !inUse(g, id) ? Math.floor(priceOf(id) * RESALE) : 0;
+
+/** Takes a sold bike or part out of the garage. The caller pays out resaleValue. */
+export const sellItem = (g: Garage, id: string): Garage => {
+  if (!resaleValue(g, id)) return g;
+  const condition = { ...g.condition };
+  delete condition[id];
+  return { ...g, owned: g.owned.filter(o => o !== id), condition };
+};
+
+export const repairBill = (g: Garage) => Math.ceil((100 - conditionOf(g)) * REPAIR_PER_POINT);
+
+export const repairBike = (g: Garage): Garage => ({ ...g, condition: { ...g.condition, [g.bike]: 100 } });
+
+/** Records the health the ridden bike came back from a race with. */
+export const wearBike = (g: Garage, health: number): Garage =>
+  ({ ...g, condition: { ...g.condition, [g.bike]: Math.max(1, Math.min(100, Math.round(health))) } });
+
+const MOD_LABELS: Record<keyof BikeStats, string> = {
+  topSpeed: 'TOP', accel: 'ACCEL', braking: 'BRAKES', handling: 'HANDLING', armor: 'ARMOR', power: 'POWER', nitro: 'NITRO'
+};
+// Stats that are shares or multipliers read better as percentages.
+const PERCENT_STATS: (keyof BikeStats)[] = ['handling', 'armor', 'power'];
+
+/** A part's modifiers for the shop, e.g. "TOP +25 · ACCEL +3". */
+export const describeMods = (mods: Partial<BikeStats>) =>
+  (Object.keys(mods) as (keyof BikeStats)[]).map(k => {
+    const v = PERCENT_STATS.includes(k) ? Math.round(mods[k]! * 100) : mods[k]!;
+    return `${MOD_LABELS[k]} ${v > 0 ? '+' : ''}${v}${PERCENT_STATS.includes(k) ? '%' : ''}`;
+  }).join(' · ');
@@ -0,0 +1,111 @@
+import { RaceSimulation } from "../types";
+
+export const GHOST_VERSION = 4;
+// Seconds between recorded ghost positions; the ghost is interpolated in between.
+const SAMPLE_INTERVAL = 0.1;
+const STORAGE_PREFIX = "neural-rush:ghost:";
+
+/** The player's trajectory over one time trial, sampled every SAMPLE_INTERVAL seconds. */
+export interface GhostRun {
+  version: typeof GHOST_VERSION;
+  stageIndex: number;
+  seed: number;
+  time: number;
+  t: number[];
+  z: number[];
+  x: number[];
+  speed: number[];
+}
+
+export interface GhostPosition {
+  z: number;
+  x: number;
+  speed: number;
+}
+
+// Time trials always run the same seed per stage, so every attempt (and every ghost) sees the same road.
+export const timeTrialSeed = (stageIndex: number) => 0x5eed0 + stageIndex;
+
+export const createGhostRecorder = (stageIndex: number, seed: number) => {
+  const run: GhostRun = { version: GHOST_VERSION, stageIndex, seed, time: 0, t: [], z: [], x: [], speed: [] };
+  const push = (sim: RaceSimulation) => {
+    run.t.push(+sim.time.toFixed(4));
+    run.z.push(Math.round(sim.player.z));
+    run.x.push(+sim.player.x.toFixed(3));
+    run.speed.push(+sim.player.speed.toFixed(1));
+  };
+
+  return {
+    // Call once per tick; only every SAMPLE_INTERVAL seconds is kept, plus the finish itself.
+    sample(sim: RaceSimulation) {
+      const last = run.t[run.t.length - 1];
+      if (last === undefined || sim.time - last >= SAMPLE_INTERVAL - 1e-9 || sim.status !== 'racing') push(sim);
+    },
+    finish(time: number): GhostRun {
+      run.time = time;
+      return run;
+    }
+  };
+};
+
+export type GhostRecorder = ReturnType<typeof createGhostRecorder>;
+
+// Index of the last sample at or before `value` in an ascending array.
+const floorIndex = (values: number[], value: number) => {
+  let lo = 0, hi = values.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (values[mid] <= value) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+};
+
+/** Where the ghost was `time` seconds into its run; it stays parked on the line once finished. */
+export const ghostAt = (run: GhostRun, time: number): GhostPosition => {
+  const i = floorIndex(run.t, time);
+  const j = Math.min(i + 1, run.t.length - 1);
+  const span = run.t[j] - run.t[i];
+  const k = span > 0 ? Math.max(0, Math.min(1, (time - run.t[i]) / span)) : 0;
+  const lerp = (a: number[]) => a[i] + (a[j] - a[i]) * k;
+  return { z: lerp(run.z), x: lerp(run.x), speed: lerp(run.speed) };
+};
+
+/**
+ * Seconds behind (positive) or ahead of (negative) the ghost, comparing the time the
+ * player reached `z` with the time the ghost did.
+ */
+export const ghostSplit = (run: GhostRun, z: number, time: number) => {
+  const i = floorIndex(run.z, z);
+  const j = Math.min(i + 1, run.z.length - 1);
+  const span = run.z[j] - run.z[i];
+  const k = span > 0 ? Math.max(0, Math.min(1, (z - run.z[i]) / span)) : 0;
+  return time - (run.t[i] + (run.t[j] - run.t[i]) * k);
+};
+
+/** The stored best for a stage, or null if there isn't one for the current time-trial road. */
+export const loadGhost = (stageIndex: number): GhostRun | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + stageIndex);
+    if (!raw) return null;
+    const run = JSON.parse(raw) as GhostRun;
+    const valid = run.version === GHOST_VERSION && run.seed === timeTrialSeed(stageIndex) && run.t?.length > 0;
+    return valid ? run : null;
+  } catch (error) {
+    console.error("Ghost Load Error:", error);
+    return null;
+  }
+};
+
+/** Stores `run` if it beats the current best for its stage. Returns whether it did. */
+export const saveGhostIfBest = (run: GhostRun): boolean => {
+  const best = loadGhost(run.stageIndex);
+  if (best && best.time <= run.time) return false;
+  try {
+    localStorage.setItem(STORAGE_PREFIX + run.stageIndex, JSON.stringify(run));
+    return true;
+  } catch (error) {
+    console.error("Ghost Save Error:", error);
+    return false;
+  }
+};
@@ -0,0 +1,113 @@
+import { Obstacle, Rng, Stage } from "../types";
+import { SEGMENT_LENGTH } from "./track";
+
+// How far (road widths) from a hazard's centre a racer's centre must be to hit it.
+export const HAZARD_REACH: Record<Obstacle['type'], number> = {
+  oil: 0.4,
+  rock: 0.3,
+  cone: 0.25,
+  pothole: 0.3
+};
+
+// Oil: seconds without grip, the sideways slide it starts, and how much steering is left.
+const OIL_SLIP = 1.2;
+const OIL_SLIDE = 0.9;
+const OIL_GRIP = 0.25;
+const ROCK_DAMAGE = 35;
+const ROCK_SPEED = 0.2;
+const CONE_SPEED = 0.9;
+const POTHOLE_DAMAGE = 8;
+const POTHOLE_SPEED = 0.85;
+// Seconds a pothole bounce lasts; the renderer lifts the bike over it.
+export const POTHOLE_BOUNCE = 0.35;
+// How far ahead (world z) drivers look for something to steer around, and how fast they swerve.
+const AVOID_RANGE = 4000;
+const AVOID_RATE = 3;
+
+/** A bike as far as hazards are concerned: the player or a rival. */
+export interface HazardRacer {
+  x: number;
+  speed: number;
+  health: number;
+  slip?: number;
+  slide?: number;
+  bounce?: number;
+}
+
+/** Scatters hazards over each of the stage's obstacle zones, `density` chances per segment. */
+export const placeObstacles = (stage: Stage, rng: Rng): Obstacle[] => {
+  const obstacles: Obstacle[] = [];
+  stage.track.obstacles.forEach(zone => {
+    for (let i = zone.from; i < zone.to; i++) {
+      if (!rng.chance(zone.density)) continue;
+      obstacles.push({
+        id: `hazard-${obstacles.length}`,
+        type: zone.types[Math.floor(rng.next() * zone.types.length)],
+        x: rng.range(-0.8, 0.8),
+        z: (i + rng.next()) * SEGMENT_LENGTH,
+        active: true
+      });
+    }
+  });
+  return obstacles;
+};
+
+/** Hazards a racer at lateral `x` ran over while moving from `prevZ` to `z` this tick. */
+export const hazardsCrossed = (obstacles: Obstacle[], x: number, prevZ: number, z: number) =>
+  obstacles.filter(o => o.active && o.z > prevZ && o.z <= z && Math.abs(o.x - x) < HAZARD_REACH[o.type]);
+
+/** The nearest active hazard ahead of (x, z) within `range`, no wider than `width` to either side. */
+export const hazardAhead = (obstacles: Obstacle[], x: number, z: number, range = AVOID_RANGE, width = 0.5) =>
+  obstacles.reduce<Obstacle | null>((best, o) =>
+    o.active && o.z > z && o.z - z < range && Math.abs(o.x - x) < width && (!best || o.z < best.z) ? o : best, null);
+
+/**
+ * Sideways move this tick for a driver minding the road: away from whatever is in its path,
+ * once it is close enough to make out. `visibility` shortens how far that is.
+ */
+export const swerve = (obstacles: Obstacle[], x: number, z: number, dt: number, visibility = 1) => {
+  const hazard = hazardAhead(obstacles, x, z, AVOID_RANGE * visibility);
+  if (!hazard) return 0;
+  return (x >= hazard.x ? 1 : -1) * AVOID_RATE * dt;
+};
+
+/**
+ * What running over `o` does to a bike. Cones are knocked out of the way; everything
+ * else stays on the road for the next racer.
+ */
+export const hitHazard = (r: HazardRacer, o: Obstacle, rng: Rng) => {
+  switch (o.type) {
+    case 'oil':
+      r.slip = OIL_SLIP;
+      r.slide = (rng.chance(0.5) ? 1 : -1) * OIL_SLIDE;
+      break;
+    case 'rock':
+      r.speed *= ROCK_SPEED;
+      r.health -= ROCK_DAMAGE;
+      break;
+    case 'cone':
+      r.speed *= CONE_SPEED;
+      o.active = false;
+      break;
+    case 'pothole':
+      r.speed *= POTHOLE_SPEED;
+      r.health -= POTHOLE_DAMAGE;
+      r.bounce = POTHOLE_BOUNCE;
+      break;
+  }
+};
+
+/** Runs down the slide and bounce timers. Returns the share of steering the bike has left. */
+export const updateHazardState = (r: HazardRacer, dt: number) => {
+  if (r.bounce) r.bounce = Math.max(0, r.bounce - dt);
+  if (!r.slide) return 1;
+  r.x += r.slide * dt;
+  if (r.slip && r.slip > 0) {
+    r.slip -= dt;
+    return OIL_GRIP;
+  }
+  // Grip comes back and the slide dies away.
+  r.slide *= 0.85;
+  if (Math.abs(r.slide) < 0.01) r.slide = 0;
+  return 1;
+};
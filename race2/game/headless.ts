@@ -0,0 +1,97 @@
+import { Player, RaceInput, RaceSimulation, RaceState } from "../types";
+import { decideLocally } from "../services/localDecisionEngine";
+import { DECISION_INTERVAL } from "../services/rivalDirector";
+import { CareerSnapshot, NEW_CAREER, applyEngineDecision, buildDecisionRequest, createRace, stepRace } from "./simulation";
+
+export const FIXED_DT = 1 / 60;
+
+export const NO_INPUT: RaceInput = {
+  accelerate: false,
+  brake: false,
+  left: false,
+  right: false,
+  punchLeft: false,
+  punchRight: false,
+  postBounty: false,
+  acceptBounty: false,
+  kick: false,
+  block: false,
+  ally: false,
+  refuse: false,
+  nitro: false
+};
+
+/** Supplies the controls for each tick; `tick` counts steps already taken. */
+export type InputSource = (tick: number, sim: RaceSimulation) => RaceInput;
+
+/** Hold `input` until `until` seconds of race time, then move on to the next step. */
+export interface InputStep {
+  until: number;
+  input: Partial<RaceInput>;
+}
+
+/** Turns a list of timed steps into an input source. Past the last step, nothing is pressed. */
+export const scriptInputs = (steps: InputStep[], dt = FIXED_DT): InputSource => tick => {
+  const step = steps.find(s => tick * dt < s.until);
+  return { ...NO_INPUT, ...step?.input };
+};
+
+export interface HeadlessOptions {
+  seed: number;
+  stageIndex?: number;
+  career?: CareerSnapshot;
+  input?: InputSource;
+  dt?: number;
+  // Race time in seconds after which the run is abandoned.
+  maxTime?: number;
+  // Consult the local decision engine on the same cadence as a live race.
+  decisions?: boolean;
+}
+
+export interface HeadlessResult {
+  seed: number;
+  stageIndex: number;
+  status: RaceSimulation['status'] | 'timeout';
+  ticks: number;
+  time: number;
+  finishOrder: string[];
+  player: Player;
+  race: RaceState;
+}
+
+/**
+ * Runs a whole race at a fixed timestep with no canvas and no animation frames. With the
+ * same options it always produces the same result, which is the point: a seed from a bug
+ * report plus the inputs that triggered it reproduces the race.
+ */
+export const runHeadless = ({
+  seed,
+  stageIndex = 0,
+  career = NEW_CAREER,
+  input = () => NO_INPUT,
+  dt = FIXED_DT,
+  maxTime = 600,
+  decisions = true
+}: HeadlessOptions): HeadlessResult => {
+  const sim = createRace(stageIndex, career, seed);
+  const decisionEvery = Math.max(1, Math.round(DECISION_INTERVAL / dt));
+  const maxTicks = Math.ceil(maxTime / dt);
+
+  while (sim.status === 'racing' && sim.tick < maxTicks) {
+    if (decisions && sim.tick > 0 && sim.tick % decisionEvery === 0) {
+      applyEngineDecision(sim, decideLocally(...buildDecisionRequest(sim)));
+    }
+    stepRace(sim, input(sim.tick, sim), dt);
+  }
+
+  return {
+    seed,
+    stageIndex,
+    status: sim.status === 'racing' ? 'timeout' : sim.status,
+    ticks: sim.tick,
+    time: sim.tick * dt,
+    finishOrder: [...sim.race.positions],
+    player: sim.player,
+    race: sim.race
+  };
+};
@@ -0,0 +1,114 @@
+import { EventLogEntry, RaceState, TrafficVehicle } from "../types";
+import { createVehicle } from "./traffic";
+
+export const HEAT_MAX = 100;
+// One more police unit joins the pursuit at each of these heat levels.
+export const POLICE_THRESHOLDS = [25, 50, 75];
+export const POLICE_MAX = 4;
+
+export const PUNCH_HEAT = 3;
+export const TRAFFIC_HIT_HEAT = 6;
+// Heat per second at full speed, scaled by the stage's traffic density.
+const SPEEDING_HEAT_RATE = 40;
+const SPEEDING_RATIO = 0.85;
+const COOL_RATE = 0.5;
+
+// Seconds a racer has to be held nearly stopped next to a unit before it's a bust.
+const BUST_TIME = 2;
+const BUST_SPEED_RATIO = 0.3;
+const BUST_RANGE = 400;
+const BOX_DISTANCE = 250;
+const GIVE_UP_DISTANCE = 6000;
+export const BUST_BASE_FINE = 200;
+export const BUST_HEAT_AFTER = 10;
+export const LAY_LOW_COST = 300;
+export const LAY_LOW_COOLING = 40;
+
+/** What a police unit needs to know about whoever it is chasing. */
+export interface PursuitTarget {
+  x: number;
+  z: number;
+  speed: number;
+  maxSpeed: number;
+}
+
+export const addHeat = (race: RaceState, amount: number) => {
+  race.heatLevel = Math.max(0, Math.min(HEAT_MAX, race.heatLevel + amount));
+};
+
+/** Speeding through a busy stage draws attention; riding clean lets it die down. */
+export const updateHeat = (race: RaceState, speedRatio: number, trafficDensity: number, dt: number) => {
+  if (speedRatio > SPEEDING_RATIO) addHeat(race, trafficDensity * SPEEDING_HEAT_RATE * dt);
+  else addHeat(race, -COOL_RATE * dt);
+};
+
+export const policeQuota = (heat: number) => POLICE_THRESHOLDS.filter(t => heat >= t).length;
+
+export const bustFine = (heat: number) => BUST_BASE_FINE + Math.round(heat * 5);
+
+export const countPolice = (traffic: TrafficVehicle[]) => traffic.filter(t => t.pursuit).length;
+
+/** True while `unit` is closing in on or boxing `racerId`; it rides alongside rather than ramming, so it never counts as a crash. */
+export const boxing = (unit: TrafficVehicle, racerId: string) => !!unit.pursuit && unit.pursuit.targetId === racerId && !unit.pursuit.givingUp;
+
+/** Puts a new unit on the road behind `target`, already chasing it. */
+export const spawnPolice = (traffic: TrafficVehicle[], targetId: string, target: PursuitTarget, tick: number): EventLogEntry => {
+  const slot = [0, -1, 1][countPolice(traffic) % 3];
+  const unit = createVehicle(`police-${tick}-${traffic.length}`, 'police', 2, 1, target.z - 3000, target.speed, '#ecf0f1');
+  unit.x = target.x + slot * 0.5;
+  unit.pursuit = { targetId, slot, bustTimer: 0, givingUp: false };
+  traffic.push(unit);
+  return { type: 'policeDispatched', actor: 'police', target: targetId, tick, description: `Police unit dispatched after ${targetId.toUpperCase()}` };
+};
+
+/**
+ * Moves every unit in pursuit. Units close in at slightly above their target's top speed,
+ * then settle into a box (one ahead, the rest alongside) and brake to pin the target down.
+ * Returns the ids of racers busted this frame; their pursuers are removed.
+ * `quota` only limits units after the player (heat is the player's); any beyond it, and any
+ * unit that has been outrun, drops back and leaves once it is far enough behind.
+ */
+export const updatePolice = (
+  traffic: TrafficVehicle[],
+  targets: Map<string, PursuitTarget>,
+  quota: number,
+  dt: number
+): string[] => {
+  const busted: string[] = [];
+  let onDuty = 0;
+
+  traffic.forEach(unit => {
+    const chase = unit.pursuit;
+    if (!chase) return;
+    const target = targets.get(chase.targetId);
+    const overQuota = chase.targetId === 'player' && onDuty >= quota;
+    chase.givingUp = chase.givingUp || !target || overQuota || target.z - unit.z > GIVE_UP_DISTANCE;
+    if (chase.givingUp || !target) {
+      unit.speed *= 1 - 0.5 * dt;
+      return;
+    }
+    if (chase.targetId === 'player') onDuty++;
+
+    const boxZ = target.z + (chase.slot === 0 ? BOX_DISTANCE : 0);
+    const boxX = target.x + chase.slot * 0.45;
+    const gap = boxZ - unit.z;
+    if (gap > BOX_DISTANCE) unit.speed = Math.min(target.maxSpeed * 1.05, unit.speed + 40 * dt);
+    else unit.speed = Math.max(0, target.speed * 0.8);
+    unit.x += (boxX - unit.x) * Math.min(1, 2 * dt);
+
+    const close = Math.abs(unit.z - target.z) < BUST_RANGE;
+    if (close && target.speed < target.maxSpeed * BUST_SPEED_RATIO) chase.bustTimer += dt;
+    else chase.bustTimer = Math.max(0, chase.bustTimer - dt);
+    if (chase.bustTimer >= BUST_TIME && !busted.includes(chase.targetId)) busted.push(chase.targetId);
+  });
+
+  for (let i = traffic.length - 1; i >= 0; i--) {
+    const chase = traffic[i].pursuit;
+    if (!chase) continue;
+    const target = targets.get(chase.targetId);
+    const lost = chase.givingUp && (!target || target.z - traffic[i].z > GIVE_UP_DISTANCE);
+    if (lost || busted.includes(chase.targetId)) traffic.splice(i, 1);
+  }
+
+  return busted;
+};
@@ -0,0 +1,126 @@
+import { Archetype, NitroCan, Opponent, Rng, Stage, TrafficVehicle } from "../types";
+import { SEGMENT_LENGTH } from "./track";
+
+// Top speed multiplier while boosting, and the extra acceleration that gets the bike there.
+export const NITRO_BOOST = 1.3;
+const NITRO_THRUST = 40;
+// Nitro burned per second of boost.
+const NITRO_BURN = 25;
+// A boost only lights with at least this much in the tank; once lit it runs while there is any left.
+const MIN_BURST = 15;
+// Speed lost per second while coming back down from a boost.
+export const BOOST_FADE = 30;
+// Share of the tank every racer starts with.
+export const NITRO_START = 0.5;
+// Every rival's tank.
+export const RIVAL_TANK = 100;
+
+// Drafting: riding this far (world z) behind something, this close to its line, at a decent share of top speed.
+const DRAFT_MIN = 100;
+const DRAFT_LENGTH = 800;
+const DRAFT_WIDTH = 0.3;
+const DRAFT_SPEED = 0.5;
+const DRAFT_FILL = 8;
+// Passing within this much (road widths) of a car's side without touching it.
+const NEAR_MISS_GAP = 0.25;
+export const NEAR_MISS_FILL = 12;
+// Landing a blow.
+export const HIT_FILL = 8;
+// Canisters by the road: one chance per this many segments, and how close a bike has to pass.
+const CAN_SPACING = 40;
+const CAN_CHANCE = 0.6;
+const CAN_FILL = 35;
+const CAN_REACH = 0.25;
+
+// Predators light it to run down whoever is just ahead; strategists save it for the last stretch
+// of the race; loyalists use it to keep up with an ally that has got away from them.
+const HUNT_RANGE = 1500;
+const FINAL_STRETCH = 0.8;
+const KEEP_UP = 1500;
+// Chaos agents light it the moment the tank is this full.
+const RECKLESS_FILL = 0.5;
+
+/** Anything with a nitro tank: the player or a rival. */
+export interface NitroRider {
+  nitro: number;
+  nitroMax: number;
+  boosting: boolean;
+  speed: number;
+  maxSpeed: number;
+}
+
+export const fillNitro = (r: NitroRider, amount: number) => {
+  r.nitro = Math.min(r.nitroMax, r.nitro + amount);
+};
+
+/** Whether `r` can boost this tick: a lit boost runs while there is any left, a new one needs enough to matter. */
+export const canBoost = (r: NitroRider) => r.boosting ? r.nitro > 0 : r.nitro >= MIN_BURST;
+
+/** The fastest `r` can go right now. */
+export const speedCap = (r: NitroRider) => r.maxSpeed * (r.boosting ? NITRO_BOOST : 1);
+
+/** Burns a tick's worth of nitro and pushes the bike toward its boosted top speed. */
+export const burnNitro = (r: NitroRider, dt: number) => {
+  r.nitro = Math.max(0, r.nitro - NITRO_BURN * dt);
+  r.speed = Math.min(speedCap(r), r.speed + NITRO_THRUST * dt);
+};
+
+/**
+ * Whether a bike at (x, z) is sitting in the slipstream of any of `leaders` (racers or traffic
+ * going the same way), and fast enough for it to count. Fills the tank while it is.
+ */
+export const draft = (r: NitroRider & { x: number; z: number }, leaders: { x: number; z: number }[], dt: number) => {
+  if (r.speed < r.maxSpeed * DRAFT_SPEED) return false;
+  const behind = leaders.some(l => l.z - r.z > DRAFT_MIN && l.z - r.z < DRAFT_LENGTH && Math.abs(l.x - r.x) < DRAFT_WIDTH);
+  if (behind) fillNitro(r, DRAFT_FILL * dt);
+  return behind;
+};
+
+/**
+ * Whether `t` went past a bike at lateral `x` this tick, close but without touching: the
+ * gap between them (t.z minus the bike's z) was `gapBefore` and is now `gapAfter`.
+ */
+export const nearMiss = (t: TrafficVehicle, x: number, gapBefore: number, gapAfter: number) => {
+  const side = Math.abs(x - t.x);
+  return !t.contact && Math.sign(gapBefore) !== Math.sign(gapAfter) && side >= t.width && side < t.width + NEAR_MISS_GAP;
+};
+
+/** Scatters nitro canisters along the road, clear of the start. */
+export const placeCanisters = (stage: Stage, rng: Rng): NitroCan[] => {
+  const cans: NitroCan[] = [];
+  for (let i = CAN_SPACING; i * SEGMENT_LENGTH < stage.length; i += CAN_SPACING) {
+    if (!rng.chance(CAN_CHANCE)) continue;
+    cans.push({ id: `nitro-${cans.length}`, x: rng.range(-0.7, 0.7), z: (i + rng.next()) * SEGMENT_LENGTH, taken: false });
+  }
+  return cans;
+};
+
+/** Tops up `r` from the first canister it rode over moving from `prevZ` to its z. */
+export const collectCanister = (cans: NitroCan[], r: NitroRider & { x: number; z: number }, prevZ: number) => {
+  const can = cans.find(c => !c.taken && c.z > prevZ && c.z <= r.z && Math.abs(c.x - r.x) < CAN_REACH);
+  if (!can) return;
+  can.taken = true;
+  fillNitro(r, CAN_FILL);
+};
+
+/** What a rival's read of the race says about lighting its nitro, before the tank has a say. */
+export interface NitroSituation {
+  // Share of the stage behind it, 0 to 1.
+  progress: number;
+  // How far (world z) the nearest racer ahead of it is, if any.
+  gapAhead?: number;
+  // How far its ally is ahead of it (negative when behind), if it has one on the road.
+  allyGap?: number;
+}
+
+/** Whether rival `o` wants to boost, by personality; a nitro_burst directive always does. */
+export const wantsNitro = (o: Opponent, s: NitroSituation) => {
+  if (o.directive?.action === 'nitro_burst') return true;
+  switch (o.archetype) {
+    case Archetype.Predator: return s.gapAhead !== undefined && s.gapAhead < HUNT_RANGE;
+    case Archetype.Strategist: return s.progress > FINAL_STRETCH;
+    case Archetype.ChaosAgent: return o.boosting || o.nitro >= o.nitroMax * RECKLESS_FILL;
+    case Archetype.Loyalist: return s.allyGap !== undefined && s.allyGap > KEEP_UP;
+    default: return false;
+  }
+};
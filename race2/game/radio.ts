@@ -0,0 +1,113 @@
+import { RaceSimulation } from "../types";
+import { chatterFor } from "../services/radioChatter";
+import { FIXED_DT } from "./headless";
+
+// Messages on screen at once; the rest wait their turn.
+export const RADIO_SLOTS = 3;
+// Seconds a message stays up, and the least it gets before something more important bumps it.
+const SHOW_TIME = 4;
+const MIN_SHOW = 1;
+// Seconds a message may wait for a slot, by priority, before it is old news and dropped.
+const STALE_TIME = [0, 2, 5, 8];
+
+/**
+ * How much each kind of logged event matters on the radio: 3 for the big moments, 2 for the
+ * rivals talking and news worth hearing, 1 for what can go unsaid if the channel is busy.
+ * Anything else stays off air.
+ */
+const PRIORITY: Record<string, number> = {
+  knockdown: 3,
+  wipeout: 3,
+  betrayal: 3,
+  bountyComplete: 3,
+  busted: 3,
+  commentary: 2,
+  policeDispatched: 2,
+  alliance: 2,
+  allianceOffer: 2,
+  bountyPosted: 1,
+  bountyShared: 1,
+  allianceDeclined: 1,
+  allianceRefused: 1,
+  traffic: 1,
+  hazard: 1
+};
+// A rival's own reaction goes out just below the news it is reacting to.
+const CHATTER_PRIORITY = 2;
+
+const PLAYER_COLOR = '#00ffff';
+const POLICE_COLOR = '#ecf0f1';
+
+export interface RadioMessage {
+  // Whose portrait goes alongside: a racer id, or 'police'.
+  speaker: string;
+  name: string;
+  color: string;
+  text: string;
+  // Commentary and chatter are a rival talking; anything else is a callout of what happened.
+  spoken: boolean;
+  priority: number;
+  // Seconds spent in the queue, then on screen.
+  waited: number;
+  shown: number;
+}
+
+export interface RadioFeed {
+  // Event log entries already taken in, and the race time the feed is up to.
+  read: number;
+  time: number;
+  queue: RadioMessage[];
+  showing: RadioMessage[];
+}
+
+export const createRadioFeed = (): RadioFeed => ({ read: 0, time: 0, queue: [], showing: [] });
+
+/** Who is behind `id`, which may be a racer id, the police or (from commentary) a rival's name. */
+const voice = (sim: RaceSimulation, id: string) => {
+  if (id === 'player') return { speaker: 'player', name: 'YOU', color: PLAYER_COLOR };
+  const o = sim.opponents.find(r => r.id === id || r.name.toLowerCase() === id.toLowerCase());
+  if (o) return { speaker: o.id, name: o.name, color: o.color };
+  return { speaker: 'police', name: id === 'police' ? 'POLICE' : id.toUpperCase(), color: POLICE_COLOR };
+};
+
+/**
+ * Brings the feed up to the race's current time: takes in what was logged since the last call,
+ * retires messages that have had their time on screen and fills free slots from the queue, most
+ * important first, oldest first within that. A message that can't wait for a slot bumps one
+ * that matters less. With `chatter` on, rivals answer what happens to them from the local
+ * line bank, for when no AI is doing the talking. A log or clock that has gone backwards (a
+ * replay started over) starts the feed over too.
+ */
+export const updateRadioFeed = (feed: RadioFeed, sim: RaceSimulation, chatter: boolean) => {
+  const log = sim.race.eventLog;
+  if (log.length < feed.read || sim.time < feed.time) Object.assign(feed, createRadioFeed());
+  const dt = sim.time - feed.time;
+  feed.time = sim.time;
+  feed.showing.forEach(m => { m.shown += dt; });
+  feed.queue.forEach(m => { m.waited += dt; });
+
+  log.slice(feed.read).forEach(e => {
+    const priority = PRIORITY[e.type];
+    if (!priority || !e.description) return;
+    // Entries taken in late (a replay skipped ahead) have been waiting since they happened
+    const waited = (sim.tick - e.tick) * FIXED_DT;
+    feed.queue.push({ ...voice(sim, e.actor), text: e.description, spoken: e.type === 'commentary', priority, waited, shown: 0 });
+    const reply = chatter && chatterFor(e, sim.opponents);
+    if (reply) feed.queue.push({ ...voice(sim, reply.speaker), text: reply.text, spoken: true, priority: CHATTER_PRIORITY, waited, shown: 0 });
+  });
+  feed.read = log.length;
+
+  feed.showing = feed.showing.filter(m => m.shown < SHOW_TIME);
+  feed.queue = feed.queue.filter(m => m.waited < STALE_TIME[m.priority]);
+
+  while (feed.queue.length) {
+    const next = feed.queue.reduce((best, m) => m.priority > best.priority ? m : best);
+    if (feed.showing.length >= RADIO_SLOTS) {
+      const bumped = feed.showing.find(m => m.priority < next.priority && m.shown >= MIN_SHOW);
+      if (!bumped) break;
+      feed.showing.splice(feed.showing.indexOf(bumped), 1);
+    }
+    feed.queue.splice(feed.queue.indexOf(next), 1);
+    feed.showing.push(next);
+  }
+};
@@ -0,0 +1,42 @@
+import { RaceRecap } from "../types";
+import { DecisionBackend } from "../services/decisionEngine";
+
+const STORAGE_KEY = "neural-rush:recaps";
+// Oldest reports are dropped past this many.
+const MAX_ENTRIES = 50;
+
+/** An After Action Report as filed in the career history, with enough context to list it. */
+export interface RecapEntry {
+  id: string;
+  date: string;
+  stageIndex: number;
+  stageName: string;
+  seed: number;
+  position: number;
+  time: number | null;
+  heat: number;
+  source: DecisionBackend;
+  recap: RaceRecap;
+}
+
+/** Every stored report, newest first. */
+export const loadRecapHistory = (): RecapEntry[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const entries = raw ? JSON.parse(raw) : [];
+    return Array.isArray(entries) ? entries : [];
+  } catch (error) {
+    console.error("Recap History Load Error:", error);
+    return [];
+  }
+};
+
+export const saveRecap = (entry: RecapEntry): RecapEntry[] => {
+  const history = [entry, ...loadRecapHistory().filter(e => e.id !== entry.id)].slice(0, MAX_ENTRIES);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+  } catch (error) {
+    console.error("Recap History Save Error:", error);
+  }
+  return history;
+};
@@ -0,0 +1,99 @@
+import { Archetype, EventLogEntry, Opponent, Relations, Relationship } from "../types";
+
+// Every feeling runs from nothing to this.
+export const FEELING_MAX = 100;
+// A grudge this deep turns a rival against that racer on sight.
+export const FEUD_GRUDGE = 60;
+// Between stages grudges and fear fade to this share; respect is kept.
+const COOLING = 0.8;
+
+/** How each kind of rival takes things: multipliers on every change to its feelings. */
+const TEMPERAMENT: Record<Archetype, Relationship> = {
+  [Archetype.Predator]: { grudge: 1.5, respect: 0.75, fear: 0.5 },
+  [Archetype.Strategist]: { grudge: 0.75, respect: 1.5, fear: 1 },
+  [Archetype.ChaosAgent]: { grudge: 1, respect: 0.5, fear: 0.25 },
+  [Archetype.Loyalist]: { grudge: 0.75, respect: 1, fear: 1.5 }
+};
+
+/** What the target of each logged event comes to feel about its actor. */
+const EVENT_FEELINGS: Record<string, Partial<Relationship>> = {
+  knockdown: { grudge: 25, fear: 10, respect: 5 },
+  block: { respect: 8, fear: 3 },
+  bountyPosted: { grudge: 15 },
+  bountyAccepted: { grudge: 10 },
+  bountyComplete: { grudge: 20, fear: 10 },
+  alliance: { respect: 5 },
+  betrayal: { grudge: 30 },
+  allianceDeclined: { grudge: 5 },
+  bountyShared: { respect: 5 }
+};
+
+// A blow that lands but doesn't put the rider down.
+export const HIT_FEELINGS: Partial<Relationship> = { grudge: 4, fear: 2 };
+// Finishing: respect for everyone who beat you, and a grudge against whoever beat you by one place.
+const BEATEN_BY: Partial<Relationship> = { respect: 4 };
+const PIPPED_BY: Partial<Relationship> = { grudge: 6 };
+
+const neutral = (): Relationship => ({ grudge: 0, respect: 0, fear: 0 });
+
+/** Feelings for a new career: every rival starts neutral towards the player and each other. */
+export const createRelations = (rivalIds: string[]): Record<string, Relations> =>
+  Object.fromEntries(rivalIds.map(id => [id, Object.fromEntries(['player', ...rivalIds].filter(other => other !== id).map(other => [other, neutral()]))]));
+
+/** How `o` feels about `otherId`; neutral for anyone it has no history with. */
+export const feelingsFor = (o: Opponent, otherId: string): Relationship => o.relations[otherId] ?? neutral();
+
+/** Changes how `o` feels about `otherId`, scaled by its temperament. */
+export const feel = (o: Opponent, otherId: string, change: Partial<Relationship>) => {
+  if (otherId === o.id) return;
+  const current = o.relations[otherId] ??= neutral();
+  const temper = TEMPERAMENT[o.archetype];
+  (Object.keys(change) as (keyof Relationship)[]).forEach(k => {
+    current[k] = Math.max(0, Math.min(FEELING_MAX, current[k] + change[k]! * temper[k]));
+  });
+};
+
+/** Lets the rival an event happened to remember who did it. Events against anyone else are ignored. */
+export const feelEvent = (opponents: Opponent[], e: EventLogEntry) => {
+  const change = EVENT_FEELINGS[e.type];
+  const victim = change && opponents.find(o => o.id === e.target);
+  if (victim && (e.actor === 'player' || opponents.some(o => o.id === e.actor))) feel(victim, e.actor, change);
+};
+
+/** Feelings from the finishing order, `positions` being racer ids from first to last. */
+export const feelFinish = (opponents: Opponent[], positions: string[]) => {
+  opponents.forEach(o => {
+    const place = positions.indexOf(o.id);
+    positions.slice(0, Math.max(0, place)).forEach(ahead => feel(o, ahead, BEATEN_BY));
+    if (place > 0) feel(o, positions[place - 1], PIPPED_BY);
+  });
+};
+
+/**
+ * The rival field's feelings to carry into the next stage, cooled off a little. Rivals
+ * that weren't in the race keep what they had in `before`.
+ */
+export const carryRelations = (before: Record<string, Relations>, opponents: Opponent[]): Record<string, Relations> => ({
+  ...before,
+  ...Object.fromEntries(opponents.map(o => [o.id, Object.fromEntries(Object.entries(o.relations).map(([id, r]) => [id, {
+    grudge: Math.round(r.grudge * COOLING),
+    respect: Math.round(r.respect),
+    fear: Math.round(r.fear * COOLING)
+  }]))]))
+});
+
+/**
+ * How much more (or less) likely than usual `o` is to swing at `otherId`: up to three
+ * times as keen with a deep grudge, and put off by fear.
+ */
+export const aggression = (o: Opponent, otherId: string) => {
+  const r = feelingsFor(o, otherId);
+  return (1 + 2 * r.grudge / FEELING_MAX) * (1 - 0.75 * r.fear / FEELING_MAX);
+};
+
+/** The racer among `candidates` that `o` has the deepest feud with, if any is deep enough. */
+export const bitterest = (o: Opponent, candidates: string[]) =>
+  candidates.reduce<string | undefined>((worst, id) => {
+    const grudge = feelingsFor(o, id).grudge;
+    return grudge >= FEUD_GRUDGE && (!worst || grudge > feelingsFor(o, worst).grudge) ? id : worst;
+  }, undefined);
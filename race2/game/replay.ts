@@ -0,0 +1,157 @@
+import { DecisionResponse, RaceInput, RaceMode, RaceSimulation } from "../types";
+import { CareerSnapshot, applyEngineDecision, createRace, stepRace } from "./simulation";
+import { STAGES } from "./stages";
+
+export const REPLAY_VERSION = 16;
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+// Bit order of the packed input mask. Append only: existing replays depend on it.
+const INPUT_BITS: (keyof RaceInput)[] = ['accelerate', 'brake', 'left', 'right', 'punchLeft', 'punchRight', 'postBounty', 'acceptBounty', 'kick', 'block', 'ally', 'refuse', 'nitro'];
+
+/**
+ * A recorded race. Inputs are one bitmask per tick, run-length encoded as [mask, ticks]
+ * pairs. Decision engine replies are stored with the tick they were applied on, since a
+ * remote engine can't be asked the same question twice and get the same answer.
+ */
+export interface ReplayFile {
+  version: typeof REPLAY_VERSION;
+  seed: number;
+  mode: RaceMode;
+  stageIndex: number;
+  dt: number;
+  career: CareerSnapshot;
+  inputs: [number, number][];
+  decisions: { tick: number; decision: DecisionResponse }[];
+  recordedAt: string;
+}
+
+export const encodeInput = (input: RaceInput) =>
+  INPUT_BITS.reduce((mask, key, bit) => input[key] ? mask | (1 << bit) : mask, 0);
+
+export const decodeInput = (mask: number): RaceInput =>
+  INPUT_BITS.reduce((input, key, bit) => ({ ...input, [key]: (mask & (1 << bit)) !== 0 }), {} as RaceInput);
+
+export const createRecorder = (seed: number, mode: RaceMode, stageIndex: number, career: CareerSnapshot, dt: number) => {
+  const file: ReplayFile = {
+    version: REPLAY_VERSION,
+    seed,
+    mode,
+    stageIndex,
+    dt,
+    career: structuredClone(career),
+    inputs: [],
+    decisions: [],
+    recordedAt: new Date().toISOString()
+  };
+
+  return {
+    input(input: RaceInput) {
+      const mask = encodeInput(input);
+      const last = file.inputs[file.inputs.length - 1];
+      if (last && last[0] === mask) last[1]++;
+      else file.inputs.push([mask, 1]);
+    },
+    // Copied, because engine replies can share arrays with the live race state.
+    decision(tick: number, decision: DecisionResponse) {
+      file.decisions.push({ tick, decision: structuredClone(decision) });
+    },
+    file: () => file
+  };
+};
+
+export type ReplayRecorder = ReturnType<typeof createRecorder>;
+
+export const serializeReplay = (file: ReplayFile) => JSON.stringify(file);
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isInputRun = (run: unknown): run is [number, number] =>
+  Array.isArray(run) && run.length === 2 && Number.isInteger(run[0]) && Number.isInteger(run[1]) && run[1] > 0;
+
+const isDecisionEntry = (entry: unknown): entry is ReplayFile['decisions'][number] =>
+  isObject(entry) && Number.isInteger(entry.tick) && isObject(entry.decision);
+
+// Only the shape is checked here; a replay of a doctored career simply plays back a different race.
+const isCareerSnapshot = (career: unknown): career is CareerSnapshot =>
+  isObject(career) && [career.money, career.score, career.heat, career.wrecks, career.wreckLimit].every(n => typeof n === 'number') &&
+  isObject(career.garage) && isObject(career.relations);
+
+const isRaceMode = (mode: unknown): mode is RaceMode => mode === 'career' || mode === 'timeTrial';
+
+/** Reads a replay file, throwing an Error that says what is wrong with it. */
+export const parseReplay = (text: string): ReplayFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Replay is not valid JSON");
+  }
+  if (!isObject(raw)) throw new Error("Replay is not a JSON object");
+  const { version, seed, stageIndex, mode, dt, inputs, decisions, career, recordedAt } = raw;
+  if (version !== REPLAY_VERSION) throw new Error(`Unsupported replay version ${version}`);
+  if (typeof seed !== 'number' || !Number.isInteger(seed) || typeof stageIndex !== 'number' || !Number.isInteger(stageIndex)) {
+    throw new Error("Replay is missing its seed or stage");
+  }
+  if (!STAGES[stageIndex]) throw new Error(`Replay is for unknown stage ${stageIndex}`);
+  if (!isRaceMode(mode)) throw new Error(`Unknown race mode ${mode}`);
+  if (typeof dt !== 'number' || dt <= 0) throw new Error("Replay has an invalid timestep");
+  if (!Array.isArray(inputs) || !inputs.every(isInputRun)) throw new Error("Replay input stream is corrupt");
+  if (!Array.isArray(decisions) || !decisions.every(isDecisionEntry)) throw new Error("Replay decision list is missing or corrupt");
+  if (!isCareerSnapshot(career)) throw new Error("Replay is missing the career snapshot");
+  return {
+    version,
+    seed,
+    mode,
+    stageIndex,
+    dt,
+    career,
+    inputs,
+    decisions,
+    recordedAt: typeof recordedAt === 'string' ? recordedAt : ''
+  };
+};
+
+/**
+ * Plays a replay back through the simulation. Scrubbing backwards rebuilds the race from
+ * its seed and fast-forwards, which is cheap next to drawing a single frame. `onStep` runs
+ * after every tick, as the live race's per-tick work does.
+ */
+export const createPlayback = (file: ReplayFile, onStep?: (sim: RaceSimulation) => void) => {
+  const masks: number[] = file.inputs.flatMap(([mask, ticks]) => Array<number>(ticks).fill(mask));
+  const decisionsAt = new Map<number, DecisionResponse[]>();
+  file.decisions.forEach(({ tick, decision }) => decisionsAt.set(tick, [...(decisionsAt.get(tick) || []), decision]));
+
+  let sim: RaceSimulation = createRace(file.stageIndex, file.career, file.seed, file.mode);
+  let carry = 0;
+
+  const stepOnce = () => {
+    decisionsAt.get(sim.tick)?.forEach(d => applyEngineDecision(sim, d));
+    stepRace(sim, decodeInput(masks[sim.tick] ?? 0), file.dt);
+    onStep?.(sim);
+  };
+
+  const seek = (tick: number) => {
+    const target = Math.max(0, Math.min(masks.length, Math.round(tick)));
+    if (target < sim.tick) sim = createRace(file.stageIndex, file.career, file.seed, file.mode);
+    while (sim.tick < target && sim.status === 'racing') stepOnce();
+    carry = 0;
+  };
+
+  return {
+    totalTicks: masks.length,
+    dt: file.dt,
+    get sim() { return sim; },
+    get done() { return sim.tick >= masks.length || sim.status !== 'racing'; },
+    // Moves playback on by `seconds` of real time at the given speed.
+    advance(seconds: number, speed: number) {
+      carry += seconds * speed;
+      while (carry >= file.dt && sim.tick < masks.length && sim.status === 'racing') {
+        carry -= file.dt;
+        stepOnce();
+      }
+    },
+    seek
+  };
+};
+
+export type ReplayPlayback = ReturnType<typeof createPlayback>;
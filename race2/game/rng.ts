@@ -0,0 +1,24 @@
+import { Rng } from "../types";
+
+/**
+ * Mulberry32: small, fast and good enough for gameplay. The whole race draws from one
+ * generator, so the same seed and the same inputs always play out the same way.
+ */
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    range: (min, max) => min + next() * (max - min),
+    chance: p => next() < p
+  };
+};
+
+/** A fresh seed for a race nobody asked to reproduce. */
+export const randomSeed = () => Math.floor(Math.random() * 4294967296);
@@ -0,0 +1,148 @@
+import { Garage, Relations } from "../types";
+import { CareerSnapshot } from "./simulation";
+import { STAGES } from "./stages";
+import { NEW_GARAGE, PART_SLOTS, bikeById, owns, partById } from "./garage";
+
+export const SAVE_VERSION = 2;
+export const SAVE_SLOTS = 3;
+const STORAGE_PREFIX = "neural-rush:career:";
+
+/** A career that is still going, or how it ended. Only an active one can be continued. */
+export type CareerStatus = 'active' | 'wrecked' | 'champion';
+
+/** One save slot: where the career stands and what it has to race with. */
+export interface CareerSave {
+  version: typeof SAVE_VERSION;
+  savedAt: string;
+  // The stage last raced or about to be raced, and whether Continue picks up on its start
+  // line or in the garage after it.
+  stage: number;
+  resume: 'race' | 'shop';
+  status: CareerStatus;
+  career: CareerSnapshot;
+}
+
+type RawSave = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const isCareerStatus = (v: unknown): v is CareerStatus => v === 'active' || v === 'wrecked' || v === 'champion';
+
+const isGarage = (g: unknown): g is Garage =>
+  isObject(g) && typeof g.bike === 'string' && typeof g.paint === 'string' &&
+  Array.isArray(g.owned) && g.owned.every(id => typeof id === 'string') &&
+  isObject(g.parts) && Object.values(g.parts).every(id => typeof id === 'string') &&
+  isObject(g.condition) && Object.values(g.condition).every(isNumber);
+
+const isRelations = (v: unknown): v is Record<string, Relations> => isObject(v) && Object.values(v).every(isObject);
+
+/**
+ * Upgrades a save from the version it is keyed by to the next one. parseSave runs them in
+ * turn, so a save from any earlier version loads; add one whenever SAVE_VERSION goes up.
+ */
+const MIGRATIONS: Record<number, (raw: RawSave) => RawSave> = {
+  // Upgrade levels became parts: each upgrade at level 2 or more turns into the matching
+  // part, the better one from level 4, and the bike starts out undamaged.
+  1: raw => {
+    const { upgrades, ...career } = isObject(raw.career) ? raw.career : {};
+    const levels = isObject(upgrades) ? upgrades : {};
+    const level = (n: unknown) => typeof n === 'number' ? n : 1;
+    const tier = (n: unknown, good: string, better: string) => level(n) >= 4 ? [good, better] : level(n) >= 2 ? [good] : [];
+    const engine = tier(levels.speed, 'turbocore', 'big-bore');
+    const tires = tier(levels.accel, 'road-tires', 'slick-tires');
+    const kit = tier(levels.combat, 'knuckles', 'spiked-armor');
+    const parts = { ...NEW_GARAGE.parts };
+    if (engine.length) parts.engine = engine[engine.length - 1];
+    if (tires.length) parts.tires = tires[tires.length - 1];
+    if (kit[0]) parts.weapon = kit[0];
+    if (kit[1]) parts.armor = kit[1];
+    const garage = { ...NEW_GARAGE, owned: [...engine, ...tires, ...kit], parts };
+    return { ...raw, career: { ...career, garage } };
+  }
+};
+
+/** Brings a parsed save up to SAVE_VERSION and checks it, throwing an Error that says what is wrong with it. */
+export const migrateSave = (raw: unknown): CareerSave => {
+  if (!isObject(raw)) throw new Error("Save is not a JSON object");
+  const from = raw.version;
+  if (typeof from !== 'number' || !Number.isInteger(from) || from < 1) throw new Error("Save has no version");
+  if (from > SAVE_VERSION) throw new Error(`Save is from a newer version of the game (${from})`);
+  let save = raw;
+  for (let v = from; v < SAVE_VERSION; v++) save = { ...MIGRATIONS[v](save), version: v + 1 };
+
+  const { savedAt, stage, resume, status } = save;
+  if (typeof stage !== 'number' || !Number.isInteger(stage) || !STAGES[stage]) throw new Error(`Save is for unknown stage ${stage}`);
+  if (resume !== 'race' && resume !== 'shop') throw new Error(`Save has an unknown resume point ${resume}`);
+  if (!isCareerStatus(status)) throw new Error(`Save has an unknown status ${status}`);
+  const c = save.career;
+  if (!isObject(c)) throw new Error("Save is missing the career");
+  const { money, score, heat, wrecks, wreckLimit, garage: g, relations } = c;
+  if (!isNumber(money) || !isNumber(score) || !isNumber(heat) || !isNumber(wrecks) || !isNumber(wreckLimit)) {
+    throw new Error("Save has a corrupt career record");
+  }
+  if (!isGarage(g)) throw new Error("Save has a corrupt garage");
+  if (bikeById(g.bike).id !== g.bike || !owns(g, g.bike)) throw new Error(`Save rides a bike it doesn't own: ${g.bike}`);
+  const missing = PART_SLOTS.find(slot => partById(g.parts[slot])?.slot !== slot || !owns(g, g.parts[slot]));
+  if (missing) throw new Error(`Save has an unknown or unowned ${missing} part`);
+  if (!isRelations(relations)) throw new Error("Save is missing the rivalries");
+  return {
+    version: SAVE_VERSION,
+    savedAt: typeof savedAt === 'string' ? savedAt : '',
+    stage,
+    resume,
+    status,
+    career: { money, score, heat, garage: g, wrecks, wreckLimit, relations }
+  };
+};
+
+/** Reads a save file, throwing an Error that says what is wrong with it. */
+export const parseSave = (text: string): CareerSave => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Save is not valid JSON");
+  }
+  return migrateSave(raw);
+};
+
+export const serializeSave = (save: CareerSave) => JSON.stringify(save);
+
+export const createSave = (stage: number, resume: CareerSave['resume'], status: CareerStatus, career: CareerSnapshot): CareerSave => ({
+  version: SAVE_VERSION,
+  savedAt: new Date().toISOString(),
+  stage,
+  resume,
+  status,
+  career: structuredClone(career)
+});
+
+/** What is in `slot`, or null if it is empty or unreadable. */
+export const loadSave = (slot: number): CareerSave | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + slot);
+    return raw ? parseSave(raw) : null;
+  } catch (error) {
+    console.error("Career Load Error:", error);
+    return null;
+  }
+};
+
+export const writeSave = (slot: number, save: CareerSave) => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + slot, serializeSave(save));
+  } catch (error) {
+    console.error("Career Save Error:", error);
+  }
+};
+
+/** Every slot in order, null where there is nothing to load. */
+export const listSaves = (): (CareerSave | null)[] =>
+  Array.from({ length: SAVE_SLOTS }, (_, slot) => loadSave(slot));
+
+/** The most recently saved career that is still going, for Continue. */
+export const latestSave = (): { slot: number; save: CareerSave } | null =>
+  listSaves().reduce<{ slot: number; save: CareerSave } | null>((best, save, slot) =>
+    save?.status === 'active' && (!best || save.savedAt > best.save.savedAt) ? { slot, save } : best, null);
@@ -0,0 +1,51 @@
+import { BackdropLayer, RoadSegment, SceneryObject } from "../types";
+import { SEGMENT_LENGTH, wrap } from "./track";
+
+/** How big a kind of roadside object is, and what riding into one does. */
+export interface ScenerySpec {
+  // Size at scale 1, in road widths (the units its x is in).
+  width: number;
+  height: number;
+  // How close (road widths) a bike has to pass to hit it: the trunk, pole or legs, not the whole thing.
+  reach: number;
+  damage: number;
+  // Drawn in this unless its rule paints it.
+  color: string;
+}
+
+export const SCENERY_SPECS: Record<SceneryObject['type'], ScenerySpec> = {
+  tree: { width: 0.35, height: 0.8, reach: 0.1, damage: 20, color: '#2e7d32' },
+  streetlight: { width: 0.05, height: 1, reach: 0.06, damage: 15, color: '#444444' },
+  billboard: { width: 0.9, height: 0.9, reach: 0.35, damage: 10, color: '#e84393' },
+  building: { width: 1.4, height: 2.2, reach: 0.7, damage: 30, color: '#34495e' }
+};
+
+// Riding into something at more than this share of top speed throws the rider; either way the
+// bike is left with this share of its speed.
+const THROW_SPEED = 0.6;
+const IMPACT_SPEED = 0.3;
+
+/** The first roadside object a bike at lateral `x` rode into moving from `prevZ` to `z` this tick. */
+export const sceneryCrossed = (segments: RoadSegment[], x: number, prevZ: number, z: number) => {
+  for (let i = Math.floor(prevZ / SEGMENT_LENGTH); i <= Math.floor(z / SEGMENT_LENGTH); i++) {
+    const hit = segments[wrap(i, segments.length)].scenery.find(o =>
+      o.z > prevZ && o.z <= z && Math.abs(o.x - x) < SCENERY_SPECS[o.type].reach * o.scale);
+    if (hit) return hit;
+  }
+  return undefined;
+};
+
+/** Stops a bike dead against `o` and bounces it back toward the road. Returns the damage, and whether the rider goes over. */
+export const hitScenery = (r: { x: number; speed: number; maxSpeed: number }, o: SceneryObject) => {
+  const spec = SCENERY_SPECS[o.type];
+  const thrown = r.speed > r.maxSpeed * THROW_SPEED;
+  r.speed *= IMPACT_SPEED;
+  r.x = o.x - Math.sign(o.x) * spec.reach * o.scale;
+  return { damage: spec.damage, thrown };
+};
+
+// How much each backdrop layer moves with the road's bends and climbs, against the road itself:
+// the farther off it is, the less.
+export const PARALLAX: Record<BackdropLayer, number> = { ocean: 0.1, mountains: 0.25, city: 0.5 };
+export const BACKDROP_LAYERS = Object.keys(PARALLAX) as BackdropLayer[];
+export const DEFAULT_BACKDROP: BackdropLayer[] = ['mountains'];
@@ -0,0 +1,768 @@
+import {
+  Archetype,
+  DecisionResponse,
+  Opponent,
+  Particle,
+  Player,
+  RaceInput,
+  RaceMode,
+  RaceSimulation,
+  RaceState,
+  Relations,
+  Rng,
+  Stage,
+  TrafficProfile,
+  TrafficVehicle,
+  Garage
+} from "../types";
+import { DecisionEngine } from "../services/decisionEngine";
+import { applyDecision, buildRivalSnapshot, driveRival } from "../services/rivalDirector";
+import {
+  BLOCK_COOLDOWN,
+  BLOCK_STAGGER,
+  BLOCK_WINDOW,
+  COUNTER_CHANCE,
+  COUNTER_WINDUP,
+  KICK,
+  KICK_TIME,
+  PUNCH_TIME,
+  RIVAL_POWER,
+  STRIKE_RANGE,
+  canSwing,
+  inReach,
+  interruptSwing,
+  isWindingUp,
+  knockback,
+  pickupCrossed,
+  placePickups,
+  startWindup,
+  strikeStats,
+  takePickup,
+  updateRivalAttack,
+  wearWeapon,
+  WEAPONS
+} from "./combat";
+import { PROPOSE_RANGE, allyOf, areAllied, breakAlliance, formAlliance, shareBounty, willAlly } from "./alliances";
+import { BountyRacer, acceptBounty, evaluateBounties, openBountyFor, postBounty, seedRivalBounties, settleBounties } from "./bounties";
+import { NEW_GARAGE, bikeStats, conditionOf, startingWeapon } from "./garage";
+import {
+  BUST_HEAT_AFTER,
+  POLICE_MAX,
+  PUNCH_HEAT,
+  PursuitTarget,
+  TRAFFIC_HIT_HEAT,
+  addHeat,
+  boxing,
+  bustFine,
+  countPolice,
+  policeQuota,
+  spawnPolice,
+  updateHeat,
+  updatePolice
+} from "./heat";
+import { hazardAhead, hazardsCrossed, hitHazard, placeObstacles, swerve, updateHazardState } from "./hazards";
+import { FEELING_MAX, HIT_FEELINGS, aggression, bitterest, createRelations, feel, feelEvent, feelFinish, feelingsFor } from "./relationships";
+import { BOOST_FADE, HIT_FILL, NEAR_MISS_FILL, NITRO_START, RIVAL_TANK, burnNitro, canBoost, collectCanister, draft, fillNitro, nearMiss, placeCanisters, speedCap, wantsNitro } from "./nitro";
+import { createRng } from "./rng";
+import { hitScenery, sceneryCrossed } from "./scenery";
+import { STAGES } from "./stages";
+import { createTiming, projectFinish, raceResults, recordCrossings } from "./timing";
+import { SEGMENT_LENGTH, buildTrack, wrap } from "./track";
+import { VEHICLE_SPECS, alarmTraffic, collide, createVehicle, dodgeTraffic, driveTraffic, lanesFor, meets, overlaps } from "./traffic";
+import { WEATHER } from "./weather";
+import { WRECK_LIMIT, remount, repairCost, startWipeout, updateWipeout } from "./wipeout";
+
+export const BOUNTY_COST = 250;
+// No traffic is placed this close (world z) to the start or the finish.
+const TRAFFIC_CLEARANCE = 5000;
+// Nor behind the back of the rival grid, where they would start on top of it.
+const GRID_CLEARANCE = 8000;
+// Oncoming traffic waits where it is until every racer has got away from the grid, or this many
+// seconds have gone by, so none of it comes through the field while it is still bunched up.
+const GRID_HOLD = 10;
+// On a two-way stage the player starts between the lanes going its way, clear of the oncoming ones.
+const TWO_WAY_START_X = 0.5;
+const REVENGE_BOUNTY = 150;
+// The decision engine is told about hazards up to this far (world z) past the leader.
+const HAZARD_LOOKAHEAD = 6000;
+// Chance per tick that a rival riding alongside the player starts a swing.
+const RIVAL_SWING_CHANCE = 0.03;
+// How far to the side (road widths) rivals like to ride when they are looking for a fight,
+// and how much further out one that fears its mark keeps.
+const STRIKING_GAP = 0.4;
+const WARY_GAP = 0.5;
+// A rival with no fight to pick drops back to block anyone this close (world z) behind its ally.
+const GUARD_RANGE = 1500;
+// Prize money by finishing position, 1st to 6th.
+export const PRIZES = [1500, 1000, 500, 200, 100, 50];
+
+export const RIVALS = [
+  { id: 'viper', name: 'VIPER', color: '#e74c3c', archetype: Archetype.Predator },
+  { id: 'cipher', name: 'CIPHER', color: '#3498db', archetype: Archetype.Strategist },
+  { id: 'havoc', name: 'HAVOC', color: '#2ecc71', archetype: Archetype.ChaosAgent },
+  { id: 'ghost', name: 'GHOST', color: '#f1c40f', archetype: Archetype.Loyalist },
+  { id: 'razor', name: 'RAZOR', color: '#9b59b6', archetype: Archetype.Predator }
+];
+
+// Display names for the results table and recap, keyed by racer id.
+export const RACER_NAMES: Record<string, string> = {
+  player: 'YOU',
+  ...Object.fromEntries(RIVALS.map(r => [r.id, r.name]))
+};
+
+/** What a race starts from and hands back to: the parts of the career that the race can change. */
+export interface CareerSnapshot {
+  money: number;
+  score: number;
+  heat: number;
+  garage: Garage;
+  wrecks: number;
+  wreckLimit: number;
+  // Each rival's feelings about the player and the rest of the field, keyed by rival id.
+  relations: Record<string, Relations>;
+}
+
+export const NEW_CAREER: CareerSnapshot = {
+  money: 500,
+  score: 0,
+  heat: 0,
+  garage: NEW_GARAGE,
+  wrecks: 0,
+  wreckLimit: WRECK_LIMIT,
+  relations: createRelations(RIVALS.map(r => r.id))
+};
+
+export const createRaceState = (): RaceState => ({
+  lap: 1,
+  positions: [],
+  heatLevel: 0,
+  eventLog: [],
+  activeBounties: [],
+  allianceMap: {}
+});
+
+// The bike starts with the damage it was left with, and the stats of its loadout.
+const createPlayer = (career: CareerSnapshot): Player => {
+  const stats = bikeStats(career.garage);
+  const weapon = startingWeapon(career.garage);
+  return {
+    name: 'player',
+    reputation: 0,
+    fear: 0,
+    respect: 0,
+    money: career.money,
+    score: career.score,
+    health: conditionOf(career.garage),
+    speed: 0,
+    z: 0,
+    x: 0,
+    lean: 0,
+    maxSpeed: stats.topSpeed,
+    acceleration: stats.accel,
+    braking: stats.braking,
+    handling: stats.handling,
+    combatPower: stats.power,
+    armor: stats.armor,
+    garage: structuredClone(career.garage),
+    weapon: weapon && { type: weapon, uses: WEAPONS[weapon].uses },
+    attackType: 'normal',
+    attackTime: 0,
+    finishPos: 0,
+    bustedTimer: 0,
+    slip: 0,
+    slide: 0,
+    bounce: 0,
+    wipeout: 0,
+    tumble: 0,
+    wrecks: career.wrecks,
+    nitro: stats.nitro * NITRO_START,
+    nitroMax: stats.nitro,
+    boosting: false,
+    drafting: false
+  };
+};
+
+const pickVehicleType = (mix: TrafficProfile['mix'], rng: Rng): TrafficVehicle['type'] => {
+  const entries = Object.entries(mix) as [TrafficVehicle['type'], number][];
+  let roll = rng.next() * entries.reduce((sum, [, w]) => sum + w, 0);
+  const hit = entries.find(([, w]) => (roll -= w) < 0);
+  return (hit || entries[entries.length - 1])[0];
+};
+
+/** A spot for a traffic vehicle, weighted by each section's traffic and clear of the start and finish. */
+const pickTrafficZ = (stage: Stage, rng: Rng) => {
+  const weights = stage.track.sections.flatMap(s => Array<number>(s.length).fill(s.traffic ?? 1))
+    .map((w, i, all) => (i * SEGMENT_LENGTH < GRID_CLEARANCE || (all.length - i) * SEGMENT_LENGTH < TRAFFIC_CLEARANCE) ? 0 : w);
+  const total = weights.reduce((a, b) => a + b, 0);
+  if (total <= 0) return rng.range(GRID_CLEARANCE, Math.max(GRID_CLEARANCE, stage.length - TRAFFIC_CLEARANCE));
+  let roll = rng.next() * total;
+  const index = Math.max(0, weights.findIndex(w => (roll -= w) < 0));
+  return (index + rng.next()) * SEGMENT_LENGTH;
+};
+
+/**
+ * Builds a fresh race. Everything random about it, on the track and off, follows from `seed`.
+ * `stage` is only passed for a track outside STAGES (the editor's), with `stageIndex` -1.
+ */
+export const createRace = (stageIndex: number, career: CareerSnapshot, seed: number, mode: RaceMode = 'career', stage: Stage = STAGES[stageIndex]): RaceSimulation => {
+  const rng = createRng(seed);
+  const segments = buildTrack(stage, rng);
+  const trial = mode === 'timeTrial';
+  const solo = mode !== 'career';
+  // A headwind holds every bike back alike
+  const drag = WEATHER[stage.weather].drag;
+
+  const opponents: Opponent[] = solo ? [] : RIVALS.map((r, i) => ({
+    ...r, difficulty: stageIndex + 1, x: (i % 2 === 0 ? 0.7 : -0.7), targetX: (i % 2 === 0 ? 0.7 : -0.7), z: 2000 + i * 1200,
+    speed: 180 + i * 10, maxSpeed: (190 + i * 10) * drag,
+    health: 100, state: 'racing', stateTimer: 0, attacking: false, attackType: 'normal', attackTime: 0,
+    nitro: RIVAL_TANK * NITRO_START, nitroMax: RIVAL_TANK, boosting: false,
+    relations: structuredClone(career.relations[r.id] ?? {})
+  }));
+
+  const profile = stage.track.traffic;
+  const oncoming = profile.oncoming ?? 0;
+  const traffic: TrafficVehicle[] = Array.from({ length: trial ? 0 : profile.vehicles }).map((_, i) => {
+    const type = pickVehicleType(profile.mix, rng);
+    const direction = rng.chance(oncoming) ? -1 : 1;
+    const lanes = lanesFor(direction, oncoming > 0);
+    const lane = lanes[Math.floor(rng.next() * lanes.length)];
+    const z = pickTrafficZ(stage, rng);
+    const cruise = rng.range(profile.speed[0], profile.speed[1]) * VEHICLE_SPECS[type].pace;
+    return createVehicle(`traffic-${i}`, type, lane, direction, z, cruise, '#' + Math.floor(rng.next() * 16777215).toString(16).padStart(6, '0'));
+  });
+
+  const obstacles = placeObstacles(stage, rng);
+  // Nobody to swing at in a time trial
+  const pickups = trial ? [] : placePickups(stage, rng);
+  const canisters = placeCanisters(stage, rng);
+
+  const player = createPlayer(career);
+  player.maxSpeed *= drag;
+  if (oncoming > 0) player.x = TWO_WAY_START_X;
+
+  const race = createRaceState();
+  if (!solo) {
+    race.heatLevel = career.heat;
+    race.eventLog.push(...seedRivalBounties(race.activeBounties, RIVALS, stageIndex, 0));
+  }
+
+  return {
+    seed,
+    rng,
+    mode,
+    stageIndex,
+    stage,
+    segments,
+    player,
+    opponents,
+    traffic,
+    obstacles,
+    pickups,
+    canisters,
+    wreckLimit: career.wreckLimit,
+    particles: [],
+    race,
+    tick: 0,
+    time: 0,
+    timing: createTiming(['player', ...opponents.map(o => o.id)]),
+    cameraZ: 0,
+    status: 'racing'
+  };
+};
+
+export const spawnParticle = (sim: RaceSimulation, x: number, z: number, type: Particle['type']) => {
+  sim.particles.push({
+    x, z,
+    vx: sim.rng.range(-0.05, 0.05),
+    vz: type === 'smoke' ? -0.2 : 0,
+    life: 1.0,
+    size: type === 'smoke' ? 10 : 5,
+    color: type === 'smoke' ? 'rgba(100,100,100,0.5)' : (type === 'spark' ? '#f39c12' : '#8d6e63'),
+    type
+  });
+};
+
+const knockDown = (o: Opponent) => {
+  o.state = 'down';
+  o.stateTimer = 3;
+  o.directive = undefined;
+  interruptSwing(o);
+};
+
+/** Whether a bike has ended up in the path of a traffic vehicle. */
+const hitsTraffic = (sim: RaceSimulation, bike: { x: number; z: number }) =>
+  sim.traffic.some(t => overlaps(t, bike.x, bike.z));
+
+const STRIKE_SIDES: Record<string, number> = { punchLeft: -1, punchRight: 1, kick: 0 };
+
+/** Resolves a player attack of the given type against every rival in reach. */
+export const checkCombat = (sim: RaceSimulation, type: string) => {
+  const p = sim.player;
+  const race = sim.race;
+  const side = STRIKE_SIDES[type] ?? 0;
+  const stats = type === 'kick' ? KICK : strikeStats(p.weapon);
+  let landed = false;
+  sim.opponents.forEach(o => {
+    if (o.state !== 'racing' || !inReach(p, o, side, stats.reach)) return;
+    landed = true;
+    const betrayal = breakAlliance(race, 'player', o.id, sim.tick, 'struck an ally');
+    if (betrayal) race.eventLog.push(betrayal);
+    // A kick pushes away from the player; a swing carries the bike the way it was thrown.
+    const away = side || (o.x < p.x ? -1 : 1);
+    o.health -= stats.damage * p.combatPower;
+    knockback(o, away * stats.knockback);
+    fillNitro(p, HIT_FILL);
+    feel(o, 'player', HIT_FEELINGS);
+    // Getting hit breaks a wind-up, so striking first is a defence too
+    if (isWindingUp(o)) interruptSwing(o);
+    addHeat(race, PUNCH_HEAT);
+    p.score += 200;
+    for (let i = 0; i < 10; i++) spawnParticle(sim, o.x, o.z, 'spark');
+    const intoTraffic = o.health > 0 && hitsTraffic(sim, o);
+    if (o.health <= 0 || intoTraffic) {
+      knockDown(o);
+      p.score += 1000;
+      const description = intoTraffic ? `${o.name} knocked into traffic by the player` : `${o.name} knocked off the bike by the player`;
+      race.eventLog.push({ type: 'knockdown', actor: 'player', target: o.id, tick: sim.tick, description });
+      // A knocked-down rival wants payback, once per race.
+      if (!race.activeBounties.some(b => b.initiatorId === o.id && b.targetId === 'player' && b.status === 'active')) {
+        race.eventLog.push(postBounty(race.activeBounties, o.id, 'player', REVENGE_BOUNTY, 'crash', 'public', sim.tick));
+      }
+    } else if (canSwing(o) && sim.rng.chance(COUNTER_CHANCE)) {
+      startWindup(o, 'player', -away, COUNTER_WINDUP);
+    }
+  });
+  if (landed) alarmTraffic(sim.traffic, p.z);
+  // Only blows that connect wear a weapon down; kicks don't use it at all.
+  if (landed && type !== 'kick') wearWeapon(p);
+};
+
+/**
+ * Lands the blow a rival's wind-up was building to, if its target is still on that
+ * side and in reach. The player can catch it with a well-timed block.
+ */
+const landRivalStrike = (sim: RaceSimulation, o: Opponent, side: number, target: Player | Opponent | undefined) => {
+  const p = sim.player;
+  const race = sim.race;
+  const stats = strikeStats(o.weapon);
+  o.strikeTarget = undefined;
+  // A swing wound up before the two teamed up is pulled
+  if (target && areAllied(race, o.id, target === p ? 'player' : (target as Opponent).id)) return;
+  if (!target || !inReach(o, target, side, stats.reach)) {
+    // Steered out of the way in time
+    if (target === p && Math.abs(p.z - o.z) < STRIKE_RANGE) p.score += 50;
+    return;
+  }
+  if (target === p && p.attackType === 'block' && p.attackTime > 0) {
+    o.attackCooldown = BLOCK_STAGGER;
+    knockback(o, -side * stats.knockback);
+    p.score += 100;
+    for (let i = 0; i < 6; i++) spawnParticle(sim, (o.x + p.x) / 2, p.z, 'spark');
+    race.eventLog.push({ type: 'block', actor: 'player', target: o.id, tick: sim.tick, description: `Player blocked ${o.name}'s ${o.weapon?.type ?? 'punch'}` });
+    return;
+  }
+  target.health -= stats.damage * RIVAL_POWER;
+  knockback(target, side * stats.knockback);
+  wearWeapon(o);
+  fillNitro(o, HIT_FILL);
+  alarmTraffic(sim.traffic, target.z);
+  for (let i = 0; i < 5; i++) spawnParticle(sim, target.x, target.z, 'spark');
+  // The player's own traffic check sorts out a shove into a car later in the tick.
+  if (target === p) return;
+  const victim = target as Opponent;
+  feel(victim, o.id, HIT_FEELINGS);
+  const intoTraffic = victim.health > 0 && hitsTraffic(sim, victim);
+  if (victim.health <= 0 || intoTraffic) {
+    knockDown(victim);
+    const description = intoTraffic ? `${victim.name} knocked into traffic by ${o.name}` : `${victim.name} knocked off the bike by ${o.name}`;
+    race.eventLog.push({ type: 'knockdown', actor: o.id, target: victim.id, tick: sim.tick, description });
+  }
+};
+
+/** Arguments for DecisionEngine.decide describing the race as it stands. */
+export const buildDecisionRequest = (sim: RaceSimulation): Parameters<DecisionEngine['decide']> => {
+  const zs = [sim.player.z, ...sim.opponents.map(o => o.z)];
+  const from = Math.min(...zs), to = Math.max(...zs) + HAZARD_LOOKAHEAD;
+  return [
+    sim.player,
+    sim.opponents.map(buildRivalSnapshot),
+    sim.race,
+    sim.tick,
+    sim.obstacles.filter(o => o.active && o.z > from && o.z < to)
+  ];
+};
+
+/** Applies a decision engine reply, including any police dispatch it asks for. */
+export const applyEngineDecision = (sim: RaceSimulation, decision: DecisionResponse) => {
+  const race = sim.race;
+  const events = applyDecision(sim.opponents, race, decision, sim.tick);
+  events.forEach(e => feelEvent(sim.opponents, e));
+  race.eventLog.push(...events);
+  // The engine can point the police at a rival, but only once the law is already out.
+  const wanted = decision.policeAction?.active && decision.policeAction.target;
+  const suspect = wanted && sim.opponents.find(o => o.id === wanted && o.state === 'racing');
+  if (suspect && policeQuota(race.heatLevel) > 0 && countPolice(sim.traffic) < POLICE_MAX) {
+    race.eventLog.push(spawnPolice(sim.traffic, suspect.id, suspect, sim.tick));
+  }
+};
+
+/**
+ * Advances the race by `dt` seconds. Mutates `sim` in place and sets `sim.status` once
+ * the player crosses the line or is wrecked; stepping a race that is over does nothing.
+ */
+export const stepRace = (sim: RaceSimulation, input: RaceInput, dt: number) => {
+  if (sim.status !== 'racing') return;
+  const p = sim.player;
+  const stage = sim.stage;
+  const weather = WEATHER[stage.weather];
+  const race = sim.race;
+  const downBefore = new Set(sim.opponents.filter(o => o.state === 'down').map(o => o.id));
+  const logStart = race.eventLog.length;
+  const zBefore = new Map([['player', p.z], ...sim.opponents.map(o => [o.id, o.z] as [string, number])]);
+  const healthBefore = p.health;
+  let playerCrashed = false;
+  // What threw the rider off this tick, if anything did
+  let thrownBy = '';
+  sim.tick++;
+  sim.time += dt;
+
+  // Physics (a thrown rider has no say in where the bike goes). Nitro burns for as long as it is
+  // held; once it is out, the bike eases back down to its usual top speed.
+  const downed = p.wipeout > 0;
+  const remounting = downed && updateWipeout(p, dt);
+  p.boosting = !downed && p.bustedTimer <= 0 && input.nitro && canBoost(p);
+  if (downed) p.lean = 0;
+  else if (p.bustedTimer > 0) { p.bustedTimer -= dt; p.speed = 0; }
+  else if (p.boosting) burnNitro(p, dt);
+  else if (input.brake) p.speed = Math.max(0, p.speed - p.braking * weather.braking * dt);
+  else if (p.speed > p.maxSpeed) p.speed = Math.max(p.maxSpeed, p.speed - BOOST_FADE * dt);
+  else if (input.accelerate) p.speed = Math.min(p.maxSpeed, p.speed + p.acceleration * dt);
+  else p.speed = Math.max(0, p.speed - p.acceleration * 0.5 * dt);
+
+  // Oil takes most of the steering away and slides the bike sideways; so, more gently, does a wet road
+  const grip = updateHazardState(p, dt) * weather.grip;
+  if (downed) {
+    // Nothing to steer with
+  } else if (input.left) {
+    p.x -= 2.0 * grip * p.handling * (p.speed / p.maxSpeed) * dt;
+    p.lean = Math.max(-1, p.lean - 6 * dt);
+  } else if (input.right) {
+    p.x += 2.0 * grip * p.handling * (p.speed / p.maxSpeed) * dt;
+    p.lean = Math.min(1, p.lean + 6 * dt);
+  } else {
+    p.lean *= 0.85;
+  }
+
+  p.x = Math.max(-1.9, Math.min(1.9, p.x));
+  const curSeg = sim.segments[wrap(Math.floor(p.z / SEGMENT_LENGTH), sim.segments.length)];
+  if (curSeg) p.x -= (p.speed / p.maxSpeed) * curSeg.curve * 0.08;
+
+  p.z += p.speed * dt * 100;
+  sim.cameraZ = p.z - 300;
+
+  // Hazards
+  hazardsCrossed(sim.obstacles, p.x, zBefore.get('player')!, p.z).forEach(h => {
+    hitHazard(p, h, sim.rng);
+    for (let i = 0; i < 8; i++) spawnParticle(sim, h.x, h.z, h.type === 'rock' ? 'spark' : 'dust');
+    if (h.type === 'rock') {
+      playerCrashed = true;
+      race.eventLog.push({ type: 'hazard', actor: 'player', target: h.id, tick: sim.tick, description: 'Player hit a rock at full speed' });
+    } else if (h.type === 'oil') {
+      race.eventLog.push({ type: 'hazard', actor: 'player', target: h.id, tick: sim.tick, description: 'Player lost it on an oil slick' });
+    }
+  });
+
+  // Weapons and nitro
+  const pickup = !downed && pickupCrossed(sim.pickups, p.x, zBefore.get('player')!, p.z);
+  if (pickup) takePickup(p, pickup);
+  if (!downed) collectCanister(sim.canisters, p, zBefore.get('player')!);
+  // Anything going the same way leaves a slipstream to fill up in
+  const slipstreams = [...sim.opponents.filter(o => o.state === 'racing'), ...sim.traffic.filter(t => t.direction > 0)];
+  p.drafting = !downed && draft(p, slipstreams, dt);
+
+  // Grass effect, and whatever stands by the road for a bike off it to ride into
+  if (Math.abs(p.x) > 1.0) {
+    p.speed *= 0.98;
+    if (sim.rng.chance(0.4)) spawnParticle(sim, p.x, p.z, 'dust');
+    const roadside = !downed && sceneryCrossed(sim.segments, p.x, zBefore.get('player')!, p.z);
+    if (roadside) {
+      const hit = hitScenery(p, roadside);
+      p.health -= hit.damage;
+      if (hit.thrown) thrownBy = `a ${roadside.type}`;
+      playerCrashed = true;
+      for (let i = 0; i < 8; i++) spawnParticle(sim, p.x, p.z, 'spark');
+      race.eventLog.push({ type: 'hazard', actor: 'player', target: roadside.type, tick: sim.tick, description: `Player rode into a ${roadside.type}` });
+    }
+  }
+
+  // Particles
+  if (p.speed > 20 && sim.rng.chance(0.3)) spawnParticle(sim, p.x, p.z, 'smoke');
+  sim.particles.forEach(pt => {
+    pt.z += pt.vz * p.speed * dt * 10;
+    pt.x += pt.vx;
+    pt.life -= dt;
+  });
+  sim.particles = sim.particles.filter(pt => pt.life > 0);
+
+  // Combat: the guard can go up mid-swing; otherwise one move at a time
+  if (p.attackCooldown && p.attackCooldown > 0) p.attackCooldown -= dt;
+  if (downed) {
+    // Nothing to fight with either
+  } else if (input.block && !(p.attackCooldown && p.attackCooldown > 0)) {
+    p.attackType = 'block';
+    p.attackTime = BLOCK_WINDOW;
+    p.attackCooldown = BLOCK_COOLDOWN;
+  } else if (p.attackTime > 0) p.attackTime -= dt;
+  else {
+    p.attackType = 'normal';
+    if (input.kick) { p.attackType = 'kick'; p.attackTime = KICK_TIME; checkCombat(sim, 'kick'); }
+    else if (input.punchLeft) { p.attackType = 'punchLeft'; p.attackTime = PUNCH_TIME; checkCombat(sim, 'punchLeft'); }
+    else if (input.punchRight) { p.attackType = 'punchRight'; p.attackTime = PUNCH_TIME; checkCombat(sim, 'punchRight'); }
+  }
+
+  // Bounties: put a price on the nearest rival ahead, or sign up for the newest open contract
+  if (input.postBounty) {
+    const mark = sim.opponents.filter(o => o.z > p.z).sort((a, b) => a.z - b.z)[0];
+    if (mark && p.money >= BOUNTY_COST) {
+      p.money -= BOUNTY_COST;
+      race.eventLog.push(postBounty(race.activeBounties, 'player', mark.id, BOUNTY_COST, 'crash', 'public', sim.tick));
+    }
+  }
+  if (input.acceptBounty) {
+    const open = openBountyFor(race.activeBounties, 'player');
+    const event = open && !areAllied(race, 'player', open.targetId) && acceptBounty(race.activeBounties, open.id, 'player', sim.tick);
+    if (event) race.eventLog.push(event);
+  }
+
+  // Alliances: Y takes up a rival's offer, or puts one to the nearest rival; N turns an
+  // offer down, or walks out on the player's ally
+  if (race.allianceOffer && (race.allianceOffer.timer -= dt) <= 0) race.allianceOffer = undefined;
+  const offer = race.allianceOffer;
+  if (input.ally && !allyOf(race, 'player')) {
+    race.allianceOffer = undefined;
+    const mark = offer
+      ? sim.opponents.find(o => o.id === offer.from && o.state === 'racing')
+      : sim.opponents.filter(o => o.state === 'racing' && Math.abs(o.z - p.z) < PROPOSE_RANGE).sort((a, b) => Math.abs(a.z - p.z) - Math.abs(b.z - p.z))[0];
+    const taken = mark && allyOf(race, mark.id);
+    const event = mark && !taken && (offer || willAlly(mark, 'player')) && formAlliance(race, mark.id, 'player', sim.tick);
+    if (event) race.eventLog.push(event);
+    else if (mark) {
+      const description = taken ? `${mark.name} already rides with ${RACER_NAMES[taken] ?? taken}` : `${mark.name} won't ride with the player`;
+      race.eventLog.push({ type: 'allianceRefused', actor: mark.id, target: 'player', tick: sim.tick, description });
+    }
+  } else if (input.refuse && race.allianceOffer) {
+    race.eventLog.push({ type: 'allianceDeclined', actor: 'player', target: race.allianceOffer.from, tick: sim.tick, description: `Player turns down ${race.allianceOffer.from.toUpperCase()}` });
+    race.allianceOffer = undefined;
+  } else if (input.refuse) {
+    const ally = allyOf(race, 'player');
+    const event = ally && breakAlliance(race, 'player', ally, sim.tick);
+    if (event) race.eventLog.push(event);
+  }
+
+  // AI & Traffic
+  // A rider lying in the road isn't worth chasing
+  const findTarget = (id: string) => id === 'player' ? (p.wipeout > 0 ? undefined : p) : sim.opponents.find(r => r.id === id && r.state === 'racing');
+  sim.opponents.forEach(o => {
+    const strike = updateRivalAttack(o, dt);
+
+    if (o.state === 'racing') {
+      const steerFrom = o.x;
+      if (strike) landRivalStrike(sim, o, strike, findTarget(o.strikeTarget ?? 'player'));
+      // Nitro goes on before the rival picks its pace, so the pace it picks can use it
+      const ahead = [p.wipeout > 0 ? undefined : p, ...sim.opponents.filter(r => r.state === 'racing')].filter(r => r && r.z > o.z);
+      const allyId = allyOf(race, o.id);
+      const ally = allyId && findTarget(allyId);
+      o.boosting = canBoost(o) && wantsNitro(o, {
+        progress: o.z / stage.length,
+        gapAhead: ahead.length ? Math.min(...ahead.map(r => r!.z - o.z)) : undefined,
+        allyGap: ally ? ally.z - o.z : undefined
+      });
+      const grip = updateHazardState(o, dt) * weather.grip;
+      const target = o.directive && !areAllied(race, o.id, o.directive.target) && findTarget(o.directive.target);
+      if (o.directive && !target) o.directive = undefined;
+      if (target) {
+        // Anything the target could be shoved into, not just what is already in its line
+        const trap = o.directive?.action === 'hazard_shove' ? hazardAhead(sim.obstacles, target.x, target.z, undefined, 1.2) : null;
+        const impact = driveRival(o, target, dt, trap);
+        if (impact) {
+          target.health -= impact.damage;
+          target.x += impact.shove;
+          fillNitro(o, HIT_FILL);
+          for (let i = 0; i < 5; i++) spawnParticle(sim, target.x, target.z, 'spark');
+          if (target !== p) feel(target as Opponent, o.id, HIT_FEELINGS);
+          if (target !== p && target.health <= 0) {
+            const victim = target as Opponent;
+            knockDown(victim);
+            race.eventLog.push({ type: 'knockdown', actor: o.id, target: victim.id, tick: sim.tick, description: `${victim.name} knocked off the bike by ${o.name}` });
+          }
+        }
+      } else {
+        o.speed = Math.min(speedCap(o) * (1 + (o.paceBias || 0)), o.speed + 10 * dt);
+        o.x += swerve(sim.obstacles, o.x, o.z, dt, weather.visibility) * grip;
+        // The player is the usual mark, unless there is someone nearby it has a feud with. Allies are
+        // left alone, and one with nobody to fight drops back to block whoever is chasing its ally.
+        const idOf = (r: Player | Opponent) => r === p ? 'player' : (r as Opponent).id;
+        const nearby = [p, ...sim.opponents.filter(r => r !== o && r.state === 'racing')].filter(r => Math.abs(r.z - o.z) < 2000 && !areAllied(race, o.id, idOf(r)));
+        const foeId = bitterest(o, nearby.map(idOf)) ?? (areAllied(race, o.id, 'player') ? undefined : 'player');
+        const foe = foeId && (foeId === 'player' ? p : findTarget(foeId)!);
+        const ally = !foe && allyOf(race, o.id);
+        const guarded = ally && findTarget(ally);
+        const chaser = guarded && nearby.find(r => r.z < guarded.z && guarded.z - r.z < GUARD_RANGE && r.z < o.z);
+        if (chaser) {
+          o.x += (chaser.x - o.x) * 0.05 * grip;
+          o.speed = Math.max(chaser.speed * 0.95, o.speed - 20 * dt);
+        } else if (foe && Math.abs(o.z - foe.z) < 2000) {
+          // Close in, but keep a swing's width away on whichever side it is, and more if it is scared
+          const gap = STRIKING_GAP + WARY_GAP * feelingsFor(o, foeId).fear / FEELING_MAX;
+          const lane = foe.x + (o.x < foe.x ? -gap : gap);
+          o.x += (lane - o.x) * 0.02 * grip;
+          // Opponent Attack: wound up in plain sight, so the player can block or get clear
+          if (!(foe === p && downed) && Math.abs(o.z - foe.z) < 200 && Math.abs(o.x - foe.x) < strikeStats(o.weapon).reach && canSwing(o) && sim.rng.chance(RIVAL_SWING_CHANCE * aggression(o, foeId))) {
+            startWindup(o, foeId, o.x < foe.x ? 1 : -1);
+          }
+        }
+      }
+      // Getting round a car about to be hit comes before any other line the rival wants
+      const dodge = dodgeTraffic(sim.traffic, o, dt);
+      if (dodge) o.x = steerFrom + dodge * grip;
+      if (Math.abs(o.x) > 1.0) o.speed *= 0.98;
+      if (o.boosting) burnNitro(o, dt);
+      draft(o, slipstreams.filter(r => r !== o), dt);
+    } else {
+      o.boosting = false;
+      o.speed *= 0.9;
+      o.stateTimer -= dt;
+      if (o.stateTimer <= 0) { o.state = 'racing'; o.health = 50; }
+    }
+    o.z += o.speed * dt * 100;
+
+    if (o.state !== 'racing') return;
+    const weapon = pickupCrossed(sim.pickups, o.x, zBefore.get(o.id)!, o.z);
+    if (weapon) takePickup(o, weapon);
+    collectCanister(sim.canisters, o, zBefore.get(o.id)!);
+    hazardsCrossed(sim.obstacles, o.x, zBefore.get(o.id)!, o.z).forEach(h => {
+      hitHazard(o, h, sim.rng);
+      if (o.state === 'racing' && (h.type === 'rock' || o.health <= 0)) {
+        knockDown(o);
+        for (let i = 0; i < 8; i++) spawnParticle(sim, o.x, o.z, 'spark');
+        race.eventLog.push({ type: 'hazard', actor: o.id, target: h.id, tick: sim.tick, description: `${o.name} wiped out on a ${h.type}` });
+      }
+    });
+  });
+  race.positions = [...sim.opponents, { id: 'player', z: p.z }].sort((a, b) => b.z - a.z).map(r => r.id);
+
+  // Timing
+  const marks = stage.checkpoints;
+  const zNow = new Map([['player', p.z], ...sim.opponents.map(o => [o.id, o.z] as [string, number])]);
+  sim.timing.forEach(t => recordCrossings(t, zBefore.get(t.id)!, zNow.get(t.id)!, marks, sim.time, dt));
+
+  // Heat & Police
+  if (sim.mode === 'career') updateHeat(race, p.speed / p.maxSpeed, stage.traffic, dt);
+  const quota = sim.mode === 'career' ? policeQuota(race.heatLevel) : 0;
+  const chasingPlayer = sim.traffic.filter(t => t.pursuit?.targetId === 'player' && !t.pursuit.givingUp).length;
+  if (chasingPlayer < quota && countPolice(sim.traffic) < POLICE_MAX) {
+    race.eventLog.push(spawnPolice(sim.traffic, 'player', p, sim.tick));
+  }
+  const suspects = new Map<string, PursuitTarget>([['player', p], ...sim.opponents.filter(o => o.state === 'racing').map(o => [o.id, o] as [string, PursuitTarget])]);
+  updatePolice(sim.traffic, suspects, quota, dt).forEach(id => {
+    if (id === 'player') {
+      const fine = bustFine(race.heatLevel);
+      p.money = Math.max(0, p.money - fine);
+      race.heatLevel = BUST_HEAT_AFTER;
+      p.bustedTimer = 2;
+      race.eventLog.push({ type: 'busted', actor: 'police', target: 'player', tick: sim.tick, description: `BUSTED! Fined $${fine}` });
+    } else {
+      knockDown(sim.opponents.find(r => r.id === id)!);
+      race.eventLog.push({ type: 'busted', actor: 'police', target: id, tick: sim.tick, description: `${id.toUpperCase()} pulled over` });
+    }
+  });
+
+  // Traffic
+  const riders = [p, ...sim.opponents.filter(o => o.state === 'racing')];
+  const gridClear = sim.time > GRID_HOLD || [p, ...sim.opponents].every(r => r.z > GRID_CLEARANCE);
+  driveTraffic(sim.traffic, sim.obstacles, downed ? riders.slice(1) : riders, (stage.track.traffic.oncoming ?? 0) > 0, dt);
+  sim.traffic.forEach(t => {
+    const prevZ = t.z;
+    if (t.direction > 0 || gridClear) t.z += t.speed * t.direction * dt * 100;
+    // Cars roll over the rest, but cones go flying
+    hazardsCrossed(sim.obstacles, t.x, Math.min(prevZ, t.z), Math.max(prevZ, t.z)).filter(h => h.type === 'cone').forEach(h => {
+      h.active = false;
+      for (let i = 0; i < 4; i++) spawnParticle(sim, h.x, h.z, 'dust');
+    });
+    if (!downed && !t.contact && !boxing(t, 'player') && meets(t, p.x, prevZ - zBefore.get('player')!, t.z - p.z)) {
+      const hit = collide(t, p);
+      if (hit.thrown) thrownBy = `${t.direction < 0 ? 'an oncoming' : 'a'} ${t.type}`;
+      p.speed *= 0.3; p.health -= hit.damage;
+      playerCrashed = true;
+      addHeat(race, TRAFFIC_HIT_HEAT);
+      for (let i = 0; i < 10; i++) spawnParticle(sim, p.x, p.z, 'spark');
+    } else if (!downed && !t.pursuit && nearMiss(t, p.x, prevZ - zBefore.get('player')!, t.z - p.z)) {
+      // Threading past a car close enough to feel it is worth a shot of nitro
+      fillNitro(p, NEAR_MISS_FILL);
+    }
+    sim.opponents.forEach(o => {
+      if (o.state !== 'racing' || t.contact || boxing(t, o.id) || !meets(t, o.x, prevZ - zBefore.get(o.id)!, t.z - o.z)) return;
+      const hit = collide(t, o);
+      o.speed *= 0.3;
+      o.health -= hit.damage;
+      for (let i = 0; i < 10; i++) spawnParticle(sim, o.x, o.z, 'spark');
+      if (hit.thrown || o.health <= 0) {
+        knockDown(o);
+        race.eventLog.push({ type: 'traffic', actor: o.id, target: t.id, tick: sim.tick, description: `${o.name} ploughed into ${t.direction < 0 ? 'an oncoming' : 'a'} ${t.type}` });
+      }
+    });
+  });
+
+  // Armour takes its share of everything that hit the player this tick
+  if (p.health < healthBefore) p.health = healthBefore - (healthBefore - p.health) * (1 - p.armor);
+
+  const racers: BountyRacer[] = [
+    { id: 'player', x: p.x, z: p.z, crashed: playerCrashed || !!thrownBy || (!downed && p.health <= 0) },
+    ...sim.opponents.map(o => ({ id: o.id, x: o.x, z: o.z, crashed: o.state === 'down' && !downBefore.has(o.id) }))
+  ];
+  const open = race.activeBounties.filter(b => b.status === 'active');
+  const bountyOutcome = evaluateBounties(race.activeBounties, racers, dt, sim.tick);
+  race.eventLog.push(...bountyOutcome.events);
+  p.money += bountyOutcome.payout;
+
+  if (sim.timing.find(t => t.id === 'player')!.finishTime !== undefined) {
+    // Rivals still on the road get a projected time so the whole field can be ranked.
+    sim.opponents.forEach(o => projectFinish(sim.timing.find(t => t.id === o.id)!, o, marks, sim.time));
+    race.positions = raceResults(sim.timing, RACER_NAMES).map(r => r.id);
+    p.finishPos = race.positions.indexOf('player') + 1;
+    const settled = settleBounties(race.activeBounties, race.positions, sim.tick);
+    race.eventLog.push(...settled.events);
+    p.money += settled.payout;
+    feelFinish(sim.opponents, race.positions);
+    sim.status = 'finished';
+  }
+  // Whoever claimed a bounty this tick splits it with their ally
+  open.filter(b => b.status === 'complete').forEach(b => {
+    const share = shareBounty(race, b, sim.tick);
+    if (!share) return;
+    race.eventLog.push(share.event);
+    p.money += share.toPlayer;
+  });
+  // Rivals remember what was done to them this tick
+  race.eventLog.slice(logStart).forEach(e => feelEvent(sim.opponents, e));
+  if (sim.status !== 'racing') return;
+
+  // Wipeouts: out of health or off a truck or a head-on, the rider is thrown. In a career, getting
+  // back on costs a repair, and the run is over once wrecks or the bill run too high.
+  if (!downed && (thrownBy || p.health <= 0)) {
+    startWipeout(p, sim.rng);
+    alarmTraffic(sim.traffic, p.z);
+    const description = thrownBy ? `Player thrown over the handlebars by ${thrownBy}` : 'Player wiped out';
+    race.eventLog.push({ type: 'wipeout', actor: 'player', tick: sim.tick, description });
+  } else if (remounting) {
+    const bill = repairCost(p.garage);
+    if (sim.mode !== 'career') remount(p);
+    else if (p.wrecks >= sim.wreckLimit || p.money < bill) sim.status = 'wrecked';
+    else {
+      p.money -= bill;
+      remount(p);
+      race.eventLog.push({ type: 'repair', actor: 'player', tick: sim.tick, description: `Player back on the bike after $${bill} of repairs` });
+    }
+  }
+};
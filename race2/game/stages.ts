@@ -0,0 +1,10 @@
+import { Stage } from "../types";
+import { loadBuiltInTrack } from "./trackLoader";
+import desertHighway from "../tracks/desert-highway.json";
+import neonCity from "../tracks/neon-city.json";
+import mountainPass from "../tracks/mountain-pass.json";
+import coastalRun from "../tracks/coastal-run.json";
+import wastelandRoad from "../tracks/wasteland-road.json";
+
+// Career order. New tracks are JSON files in tracks/; see trackLoader for the format.
+export const STAGES: Stage[] = [desertHighway, neonCity, mountainPass, coastalRun, wastelandRoad].map(loadBuiltInTrack);
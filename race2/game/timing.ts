@@ -0,0 +1,65 @@
+import { Opponent, RaceResult, RacerTiming } from "../types";
+
+// Timed sections on a track that does not place its own checkpoints; the last one is the finish line.
+export const SECTIONS = 4;
+// Racers cover speed * 100 units of z per second.
+const Z_PER_SPEED = 100;
+// A rival projected to the line is assumed to hold at least this share of its top speed.
+const PROJECTED_PACE = 0.8;
+
+export const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = seconds - m * 60;
+  return `${m}:${s.toFixed(2).padStart(5, '0')}`;
+};
+
+/** World z of each checkpoint, evenly spaced, ending on the finish line. */
+export const checkpoints = (stageLength: number) =>
+  Array.from({ length: SECTIONS }, (_, i) => stageLength * (i + 1) / SECTIONS);
+
+export const createTiming = (ids: string[]): RacerTiming[] => ids.map(id => ({ id, splits: [] }));
+
+/**
+ * Records every checkpoint a racer passed between `prevZ` and `z` this tick. The crossing
+ * time is interpolated inside the tick, so two racers over the line on the same tick still
+ * get distinct times. `time` is the clock at the end of the tick.
+ */
+export const recordCrossings = (timing: RacerTiming, prevZ: number, z: number, marks: number[], time: number, dt: number) => {
+  while (timing.splits.length < marks.length && z >= marks[timing.splits.length]) {
+    const mark = marks[timing.splits.length];
+    const k = z > prevZ ? Math.max(0, Math.min(1, (mark - prevZ) / (z - prevZ))) : 1;
+    timing.splits.push(time - dt + dt * k);
+  }
+  if (timing.finishTime === undefined && timing.splits.length === marks.length) {
+    timing.finishTime = timing.splits[marks.length - 1];
+  }
+};
+
+/** Fills in the remaining splits and finish time for a rival still on the road when the race ends. */
+export const projectFinish = (timing: RacerTiming, o: Opponent, marks: number[], time: number) => {
+  if (timing.finishTime !== undefined) return;
+  const pace = Math.max(o.speed, o.maxSpeed * PROJECTED_PACE) * Z_PER_SPEED;
+  // A rival that is down loses whatever is left of its recovery first.
+  const start = time + (o.state === 'racing' ? 0 : Math.max(0, o.stateTimer));
+  for (let i = timing.splits.length; i < marks.length; i++) {
+    timing.splits.push(start + Math.max(0, marks[i] - o.z) / pace);
+  }
+  timing.finishTime = timing.splits[marks.length - 1];
+  timing.estimated = true;
+};
+
+/** The results table: every racer with a finish time, fastest first. */
+export const raceResults = (timing: RacerTiming[], names: Record<string, string>): RaceResult[] => {
+  const finished = timing
+    .filter((t): t is RacerTiming & { finishTime: number } => t.finishTime !== undefined)
+    .sort((a, b) => a.finishTime - b.finishTime);
+  const leader = finished[0]?.finishTime ?? 0;
+  return finished.map((t, i) => ({
+    position: i + 1,
+    id: t.id,
+    name: names[t.id] || t.id.toUpperCase(),
+    time: t.finishTime,
+    gap: t.finishTime - leader,
+    estimated: !!t.estimated
+  }));
+};
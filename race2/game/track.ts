@@ -0,0 +1,92 @@
+import { RoadSegment, Rng, SceneryObject, SceneryRule, Stage, TrackPalette, TrackSection } from "../types";
+
+export const SEGMENT_LENGTH = 200;
+// Segments drawn ahead of the camera; the track is built this much longer than the stage.
+export const DRAW_DISTANCE = 300;
+
+export const wrap = (i: number, max: number) => ((i % max) + max) % max;
+
+// 0..1 to 0..1, slow at both ends.
+const easeInOut = (k: number) => 0.5 - Math.cos(k * Math.PI) / 2;
+
+export const createSegment = (index: number, z: number, y: number, curve: number, palette: TrackPalette, scenery: SceneryObject[]): RoadSegment => {
+  const band = Math.floor(index / 3) % 2 === 0 ? 0 : 1;
+
+  return {
+    index,
+    z,
+    y,
+    curve,
+    p1: { world: { x: 0, y: 0, z }, screen: { x: 0, y: 0, w: 0, z: 0, scale: 0 } },
+    p2: { world: { x: 0, y, z: z + SEGMENT_LENGTH }, screen: { x: 0, y: 0, w: 0, z: 0, scale: 0 } },
+    color: {
+      road: palette.road[band],
+      grass: palette.grass[band],
+      rumble: palette.rumble[band],
+      lane: palette.lane
+    },
+    scenery
+  };
+};
+
+/** The scenery every rule puts on segment `index`. Only `random` sides draw from `rng`. */
+export const placeScenery = (rules: SceneryRule[], index: number, z: number, rng: Rng): SceneryObject[] =>
+  rules.flatMap(rule => {
+    const start = rule.start ?? 0;
+    if (index < start || index < (rule.from ?? 0) || index >= (rule.to ?? Infinity) || (index - start) % rule.every !== 0) return [];
+    const sides = rule.side === 'both' ? [-1, 1] : rule.side === 'left' ? [-1] : rule.side === 'right' ? [1] : [rng.chance(0.5) ? 1 : -1];
+    return sides.map(side => ({ type: rule.type, x: side * rng.range(rule.offset[0], rule.offset[1]), z, scale: rule.scale ?? 1, color: rule.color }));
+  });
+
+/** Height of the road at world z, between the two ends of the segment it is on. */
+export const elevationAt = (segments: RoadSegment[], z: number) => {
+  const seg = segments[wrap(Math.floor(z / SEGMENT_LENGTH), segments.length)];
+  return seg.p1.world.y + (seg.p2.world.y - seg.p1.world.y) * (wrap(z, SEGMENT_LENGTH) / SEGMENT_LENGTH);
+};
+
+/** How far the road has turned by world z: every curve passed, summed, and the share of the current one. */
+export const bendAt = (segments: RoadSegment[], z: number) => {
+  const current = Math.floor(z / SEGMENT_LENGTH);
+  let bend = 0;
+  for (let i = 0; i < current && i < segments.length; i++) bend += segments[i].curve;
+  return bend + segments[wrap(current, segments.length)].curve * (wrap(z, SEGMENT_LENGTH) / SEGMENT_LENGTH);
+};
+
+/**
+ * Curve and height of every segment, laid end to end. A section's curve eases in over its first
+ * quarter and out over its last; its hill is spread over the whole section.
+ */
+export const sectionProfile = (sections: TrackSection[]) => {
+  const curves: number[] = [];
+  const heights: number[] = [];
+  let y = 0;
+
+  sections.forEach(section => {
+    for (let k = 0; k < section.length; k++) {
+      const t = (k + 0.5) / section.length;
+      curves.push(section.curve * easeInOut(Math.min(1, t * 4, (1 - t) * 4)));
+      heights.push(y + section.hill * easeInOut((k + 1) / section.length));
+    }
+    y += section.hill;
+  });
+  return { curves, heights };
+};
+
+/**
+ * Lays the stage's sections end to end. The road runs on, straight and level, for
+ * DRAW_DISTANCE segments past the finish so there is always something to draw.
+ */
+export const buildTrack = (stage: Stage, rng: Rng): RoadSegment[] => {
+  const { sections, scenery, palette } = stage.track;
+  const { curves, heights } = sectionProfile(sections);
+  const y = heights.length ? heights[heights.length - 1] : 0;
+  for (let k = 0; k < DRAW_DISTANCE; k++) { curves.push(0); heights.push(y); }
+
+  const segments = curves.map((curve, i) => {
+    const z = i * SEGMENT_LENGTH;
+    return createSegment(i, z, heights[i], curve, palette, placeScenery(scenery, i, z, rng));
+  });
+
+  for (let i = 1; i < segments.length; i++) segments[i].p1.world.y = segments[i - 1].p2.world.y;
+  return segments;
+};
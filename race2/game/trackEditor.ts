@@ -0,0 +1,184 @@
+import { SceneryRule, TrackDefinition, TrackSection } from "../types";
+import { sectionProfile } from "./track";
+import { DEFAULT_PALETTE, MAX_CURVE, TRACK_FORMAT, TRACK_VERSION, validateTrack } from "./trackLoader";
+
+const DRAFT_KEY = "neural-rush:track-draft";
+// Heading change in radians per segment per unit of curve. Only the top-down view uses it;
+// the race itself has no notion of heading.
+const TURN_PER_CURVE = 0.012;
+// A section's curve eases in and out, so on average it turns at this share of its full curve.
+const EASED_SHARE = 0.75;
+
+// Where each kind of scenery stands when painted, in road widths from the centre.
+export const BRUSH_OFFSETS: Record<SceneryRule['type'], [number, number]> = {
+  tree: [1.5, 2.5],
+  streetlight: [1.3, 1.5],
+  billboard: [1.8, 2.4],
+  building: [2.5, 4]
+};
+
+/** What the scenery brush lays down: one rule per stroke. */
+export interface SceneryBrush {
+  type: SceneryRule['type'];
+  side: SceneryRule['side'];
+  every: number;
+}
+
+export interface OutlinePoint {
+  x: number;
+  y: number;
+  // Radians clockwise from +y, before this point's segment turns.
+  heading: number;
+  height: number;
+  section: number;
+}
+
+export const newTrack = (): TrackDefinition => ({
+  format: TRACK_FORMAT,
+  version: TRACK_VERSION,
+  name: 'UNTITLED',
+  color: '#22d3ee',
+  palette: structuredClone(DEFAULT_PALETTE),
+  traffic: { density: 0.02, vehicles: 60, mix: { sedan: 0.8, truck: 0.2 }, speed: [80, 120] },
+  sections: [
+    { length: 40, curve: 0, hill: 0 },
+    { length: 40, curve: 2, hill: 400 },
+    { length: 40, curve: -2, hill: -400 }
+  ],
+  scenery: [],
+  obstacles: []
+});
+
+export const totalSegments = (track: TrackDefinition) => track.sections.reduce((n, s) => n + s.length, 0);
+
+/** First segment of each section, plus the total at the end. */
+export const sectionStarts = (track: TrackDefinition) =>
+  track.sections.reduce((starts, s) => [...starts, starts[starts.length - 1] + s.length], [0]);
+
+/**
+ * The centre line seen from above: a point at the start of every segment and one at the
+ * finish, in segment lengths, starting at the origin and heading up (+y).
+ */
+export const trackOutline = (track: TrackDefinition): OutlinePoint[] => {
+  const { curves, heights } = sectionProfile(track.sections);
+  const sectionOf = track.sections.flatMap((s, i) => Array<number>(s.length).fill(i));
+  const points: OutlinePoint[] = [{ x: 0, y: 0, heading: 0, height: 0, section: 0 }];
+  let heading = 0, x = 0, y = 0;
+  curves.forEach((curve, i) => {
+    heading += curve * TURN_PER_CURVE;
+    x += Math.sin(heading);
+    y += Math.cos(heading);
+    points.push({ x, y, heading, height: heights[i], section: sectionOf[i + 1] ?? sectionOf[i] });
+  });
+  return points;
+};
+
+/**
+ * Grows or shrinks the stretch of road [at, at + oldLength) to `newLength` segments, moving every segment
+ * index after it (scenery ranges, obstacle zones, checkpoints) so they stay with their part of
+ * the road. Anything left with nowhere to be is dropped.
+ */
+const resizeSpan = (track: TrackDefinition, sections: TrackSection[], at: number, oldLength: number, newLength: number): TrackDefinition => {
+  const move = (n: number) => n >= at + oldLength ? n + newLength - oldLength : n >= at ? at + Math.min(n - at, newLength) : n;
+  const total = sections.reduce((n, s) => n + s.length, 0);
+
+  const scenery = track.scenery.map(r => ({
+    ...r,
+    ...(r.start !== undefined && { start: move(r.start) }),
+    ...(r.from !== undefined && { from: move(r.from) }),
+    ...(r.to !== undefined && { to: move(r.to) })
+  })).filter(r => (r.from ?? 0) < (r.to ?? Infinity) && (r.from ?? 0) < total);
+
+  const obstacles = track.obstacles
+    .map(z => ({ ...z, from: move(z.from), to: Math.min(total, move(z.to)) }))
+    .filter(z => z.from < z.to);
+
+  const marks = track.checkpoints?.map(move).filter((m, i, all) => m >= 1 && m < total && m !== all[i - 1]);
+
+  const resized: TrackDefinition = { ...track, sections, scenery, obstacles };
+  if (marks?.length) resized.checkpoints = marks;
+  else delete resized.checkpoints;
+  return resized;
+};
+
+export const updateSection = (track: TrackDefinition, index: number, patch: Partial<TrackSection>): TrackDefinition => {
+  const old = track.sections[index];
+  const sections = track.sections.map((s, i) => i === index ? { ...s, ...patch } : s);
+  return resizeSpan(track, sections, sectionStarts(track)[index], old.length, sections[index].length);
+};
+
+/** Puts a new section in front of section `index` (or at the finish when `index` is the count). */
+export const insertSection = (track: TrackDefinition, index: number, section: TrackSection = { length: 30, curve: 0, hill: 0 }): TrackDefinition => {
+  const sections = [...track.sections.slice(0, index), section, ...track.sections.slice(index)];
+  return resizeSpan(track, sections, sectionStarts(track)[index], 0, section.length);
+};
+
+/** Removes a section; a track always keeps at least one. */
+export const removeSection = (track: TrackDefinition, index: number): TrackDefinition => {
+  if (track.sections.length <= 1) return track;
+  const sections = track.sections.filter((_, i) => i !== index);
+  return resizeSpan(track, sections, sectionStarts(track)[index], track.sections[index].length, 0);
+};
+
+/**
+ * Reshapes section `index` so it ends near `target` (outline units): the distance from the
+ * section's start sets its length and the bend away from its heading sets its curve.
+ */
+export const bendSection = (track: TrackDefinition, outline: OutlinePoint[], index: number, target: { x: number; y: number }) => {
+  const start = outline[sectionStarts(track)[index]];
+  const dx = target.x - start.x, dy = target.y - start.y;
+  // The chord of an arc points half way round it, and is shorter than the arc.
+  const bend = Math.atan2(dx, dy) - start.heading;
+  const half = Math.atan2(Math.sin(bend), Math.cos(bend));
+  const turn = 2 * half;
+  const arc = Math.abs(half) > 1e-3 ? Math.hypot(dx, dy) * half / Math.sin(half) : Math.hypot(dx, dy);
+  const length = Math.max(1, Math.round(arc));
+  const curve = Math.max(-MAX_CURVE, Math.min(MAX_CURVE, turn / (TURN_PER_CURVE * EASED_SHARE * length)));
+  return updateSection(track, index, { length, curve: Math.round(curve * 10) / 10 });
+};
+
+/** Adds a scenery rule covering segments [from, to), spaced from the first segment painted. */
+export const paintScenery = (track: TrackDefinition, from: number, to: number, brush: SceneryBrush): TrackDefinition => ({
+  ...track,
+  scenery: [...track.scenery, {
+    type: brush.type,
+    every: brush.every,
+    start: from,
+    from,
+    to,
+    side: brush.side,
+    offset: [...BRUSH_OFFSETS[brush.type]]
+  }]
+});
+
+/** Clears scenery from segments [from, to), splitting any rule that runs across the gap. */
+export const eraseScenery = (track: TrackDefinition, from: number, to: number): TrackDefinition => ({
+  ...track,
+  scenery: track.scenery.flatMap(r => {
+    const rFrom = r.from ?? 0, rTo = r.to ?? Infinity;
+    if (rTo <= from || rFrom >= to) return [r];
+    const kept: SceneryRule[] = [];
+    if (rFrom < from) kept.push({ ...r, to: from });
+    if (rTo > to) kept.push({ ...r, from: to });
+    return kept;
+  })
+});
+
+/** The track left open in the editor, if it still validates. */
+export const loadDraft = (): TrackDefinition | null => {
+  try {
+    const raw = localStorage.getItem(DRAFT_KEY);
+    return raw ? validateTrack(JSON.parse(raw)).track : null;
+  } catch (error) {
+    console.error("Track Draft Load Error:", error);
+    return null;
+  }
+};
+
+export const saveDraft = (track: TrackDefinition) => {
+  try {
+    localStorage.setItem(DRAFT_KEY, JSON.stringify(track));
+  } catch (error) {
+    console.error("Track Draft Save Error:", error);
+  }
+};
@@ -0,0 +1,327 @@
+import { BackdropLayer, ObstacleZone, SceneryRule, Stage, TrackDefinition, TrackPalette, TrackSection, TrafficProfile, WeatherKind } from "../types";
+import { checkpoints } from "./timing";
+import { SEGMENT_LENGTH } from "./track";
+import { BACKDROP_LAYERS } from "./scenery";
+import { WEATHER_KINDS } from "./weather";
+
+export const TRACK_FORMAT = 'neural-rush-track';
+export const TRACK_VERSION = 1;
+
+export const DEFAULT_PALETTE: TrackPalette = {
+  road: ['#2a2a2a', '#333333'],
+  grass: ['#0a8a0a', '#10AA10'],
+  rumble: ['#444', '#eee'],
+  lane: '#aaa'
+};
+
+const SCENERY_TYPES: SceneryRule['type'][] = ['tree', 'billboard', 'streetlight', 'building'];
+const SCENERY_SIDES: SceneryRule['side'][] = ['left', 'right', 'both', 'random'];
+const OBSTACLE_TYPES: ObstacleZone['types'][number][] = ['oil', 'rock', 'cone', 'pothole'];
+const VEHICLE_TYPES = ['sedan', 'truck', 'sports'];
+export const MAX_CURVE = 10;
+export const MAX_HILL = 5000;
+const MAX_VEHICLES = 500;
+
+/** A problem with a track file. `line` is 1-based, or 0 when the track didn't come from text. */
+export interface TrackError {
+  line: number;
+  path: string;
+  message: string;
+}
+
+export interface TrackParseResult {
+  track: TrackDefinition | null;
+  errors: TrackError[];
+}
+
+class JsonSyntaxError extends Error {
+  constructor(message: string, public line: number) {
+    super(message);
+  }
+}
+
+/**
+ * A small JSON reader that also notes the line each value starts on, keyed by path
+ * (`sections[2].curve`), so validation errors can point into the file.
+ */
+const parseJsonWithLines = (text: string) => {
+  const lines = new Map<string, number>();
+  let i = 0;
+  let line = 1;
+
+  const skipSpace = () => {
+    while (i < text.length && /\s/.test(text[i])) {
+      if (text[i] === '\n') line++;
+      i++;
+    }
+  };
+  const expect = (c: string) => {
+    skipSpace();
+    if (text[i] !== c) throw new JsonSyntaxError(`expected '${c}' but found ${text[i] ? `'${text[i]}'` : 'end of file'}`, line);
+    i++;
+  };
+  const readString = () => {
+    // JSON's own grammar, so whatever matches is safe to hand to JSON.parse
+    const match = /^"(?:[^"\\\u0000-\u001f]|\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4}))*"/.exec(text.slice(i));
+    if (!match) throw new JsonSyntaxError('unterminated string, or a bad escape in one', line);
+    i += match[0].length;
+    return JSON.parse(match[0]) as string;
+  };
+
+  const readValue = (path: string): unknown => {
+    skipSpace();
+    lines.set(path, line);
+    const c = text[i];
+    if (c === '{') {
+      i++;
+      const obj: Record<string, unknown> = {};
+      skipSpace();
+      if (text[i] === '}') { i++; return obj; }
+      for (;;) {
+        skipSpace();
+        if (text[i] !== '"') throw new JsonSyntaxError('expected a quoted key', line);
+        const key = readString();
+        expect(':');
+        obj[key] = readValue(path ? `${path}.${key}` : key);
+        skipSpace();
+        if (text[i] === ',') { i++; continue; }
+        expect('}');
+        return obj;
+      }
+    }
+    if (c === '[') {
+      i++;
+      const arr: unknown[] = [];
+      skipSpace();
+      if (text[i] === ']') { i++; return arr; }
+      for (;;) {
+        arr.push(readValue(`${path}[${arr.length}]`));
+        skipSpace();
+        if (text[i] === ',') { i++; continue; }
+        expect(']');
+        return arr;
+      }
+    }
+    if (c === '"') return readString();
+    const literal = /^(-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?|true|false|null)/.exec(text.slice(i));
+    if (!literal) throw new JsonSyntaxError(c ? `unexpected '${c}'` : 'unexpected end of file', line);
+    i += literal[0].length;
+    return JSON.parse(literal[0]);
+  };
+
+  const value = readValue('');
+  skipSpace();
+  if (i < text.length) throw new JsonSyntaxError(`unexpected '${text[i]}' after the track`, line);
+  return { value, lines };
+};
+
+type Report = (path: string, message: string) => void;
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isOneOf = <T>(v: unknown, options: readonly T[]): v is T => options.some(o => o === v);
+const isOptional = <T>(v: unknown, is: (v: unknown) => v is T): v is T | undefined => v === undefined || is(v);
+const isColor = (v: unknown): v is string => typeof v === 'string' && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(v);
+const isColorPair = (v: unknown): v is [string, string] => Array.isArray(v) && v.length === 2 && v.every(isColor);
+const isInt = (v: unknown, min = -Infinity, max = Infinity): v is number => typeof v === 'number' && Number.isInteger(v) && v >= min && v <= max;
+const isNum = (v: unknown, min = -Infinity, max = Infinity): v is number => typeof v === 'number' && Number.isFinite(v) && v >= min && v <= max;
+const isRange = (v: unknown, min: number): v is [number, number] => Array.isArray(v) && v.length === 2 && isNum(v[0], min) && isNum(v[1], v[0]);
+
+const unknownKeys = (obj: object, path: string, allowed: string[], report: Report) =>
+  Object.keys(obj).filter(k => !allowed.includes(k)).forEach(k => report(`${path}.${k}`.replace(/^\./, ''), `unknown field '${k}'`));
+
+/** Passes reports on to `report`, remembering whether there were any. */
+const tally = (report: Report) => {
+  let clean = true;
+  const note: Report = (path, message) => { clean = false; report(path, message); };
+  return { note, clean: () => clean };
+};
+
+// The checks below report every problem in their part of the track, and narrow it when there are none.
+
+const isPalette = (palette: unknown, report: Report): palette is TrackPalette => {
+  if (!isObject(palette)) { report('palette', 'must be an object'); return false; }
+  const { note, clean } = tally(report);
+  unknownKeys(palette, 'palette', ['road', 'grass', 'rumble', 'lane'], note);
+  (['road', 'grass', 'rumble'] as const).forEach(k => {
+    if (!isColorPair(palette[k])) note(`palette.${k}`, 'must be a pair of hex colors');
+  });
+  if (!isColor(palette.lane)) note('palette.lane', 'must be a hex color');
+  return clean();
+};
+
+const isTraffic = (traffic: unknown, report: Report): traffic is TrafficProfile => {
+  if (!isObject(traffic)) { report('traffic', 'must be an object with density, vehicles, mix and speed'); return false; }
+  const { note, clean } = tally(report);
+  unknownKeys(traffic, 'traffic', ['density', 'vehicles', 'mix', 'speed', 'oncoming'], note);
+  if (!isNum(traffic.density, 0, 1)) note('traffic.density', 'must be a number from 0 to 1');
+  if (!isInt(traffic.vehicles, 0, MAX_VEHICLES)) note('traffic.vehicles', `must be a whole number from 0 to ${MAX_VEHICLES}`);
+  if (!isObject(traffic.mix)) note('traffic.mix', 'must be an object of vehicle type weights');
+  else {
+    Object.entries(traffic.mix).forEach(([type, weight]) => {
+      if (!VEHICLE_TYPES.includes(type)) note(`traffic.mix.${type}`, `unknown vehicle type, expected one of ${VEHICLE_TYPES.join(', ')}`);
+      else if (!isNum(weight, 0)) note(`traffic.mix.${type}`, 'must be a weight of 0 or more');
+    });
+    if (!Object.values(traffic.mix).some(w => isNum(w) && w > 0)) note('traffic.mix', 'needs at least one weight above 0');
+  }
+  if (!isRange(traffic.speed, 1)) note('traffic.speed', 'must be [min, max] with 0 < min <= max');
+  if (traffic.oncoming !== undefined && !isNum(traffic.oncoming, 0, 1)) note('traffic.oncoming', 'must be a share from 0 to 1');
+  return clean();
+};
+
+const isSections = (sections: unknown, report: Report): sections is TrackSection[] => {
+  if (!Array.isArray(sections) || sections.length === 0) { report('sections', 'must be a non-empty array'); return false; }
+  const { note, clean } = tally(report);
+  sections.forEach((s: unknown, i) => {
+    const path = `sections[${i}]`;
+    if (!isObject(s)) return note(path, 'must be an object');
+    unknownKeys(s, path, ['length', 'curve', 'hill', 'traffic'], note);
+    if (!isInt(s.length, 1)) note(`${path}.length`, 'must be a whole number of segments, at least 1');
+    if (!isNum(s.curve, -MAX_CURVE, MAX_CURVE)) note(`${path}.curve`, `must be a number from -${MAX_CURVE} to ${MAX_CURVE}`);
+    if (!isNum(s.hill, -MAX_HILL, MAX_HILL)) note(`${path}.hill`, `must be a number from -${MAX_HILL} to ${MAX_HILL}`);
+    if (s.traffic !== undefined && !isNum(s.traffic, 0)) note(`${path}.traffic`, 'must be a multiplier of 0 or more');
+  });
+  return clean();
+};
+
+const isScenery = (scenery: unknown, report: Report): scenery is SceneryRule[] => {
+  if (!Array.isArray(scenery)) { report('scenery', 'must be an array'); return false; }
+  const { note, clean } = tally(report);
+  scenery.forEach((r: unknown, i) => {
+    const path = `scenery[${i}]`;
+    if (!isObject(r)) return note(path, 'must be an object');
+    unknownKeys(r, path, ['type', 'every', 'start', 'from', 'to', 'side', 'offset', 'scale', 'color'], note);
+    if (!isOneOf(r.type, SCENERY_TYPES)) note(`${path}.type`, `must be one of ${SCENERY_TYPES.join(', ')}`);
+    if (!isInt(r.every, 1)) note(`${path}.every`, 'must be a whole number of segments, at least 1');
+    (['start', 'from', 'to'] as const).forEach(k => {
+      if (r[k] !== undefined && !isInt(r[k], 0)) note(`${path}.${k}`, 'must be a segment index, 0 or more');
+    });
+    if (!isOneOf(r.side, SCENERY_SIDES)) note(`${path}.side`, `must be one of ${SCENERY_SIDES.join(', ')}`);
+    if (!isRange(r.offset, 1)) note(`${path}.offset`, 'must be [near, far] road widths from the centre, at least 1');
+    if (r.scale !== undefined && !isNum(r.scale, 0.1, 10)) note(`${path}.scale`, 'must be a number from 0.1 to 10');
+    if (r.color !== undefined && !isColor(r.color)) note(`${path}.color`, 'must be a hex color like "#2e7d32"');
+  });
+  return clean();
+};
+
+const isObstacles = (obstacles: unknown, totalSegments: number, report: Report): obstacles is ObstacleZone[] => {
+  if (!Array.isArray(obstacles)) { report('obstacles', 'must be an array'); return false; }
+  const { note, clean } = tally(report);
+  obstacles.forEach((z: unknown, i) => {
+    const path = `obstacles[${i}]`;
+    if (!isObject(z)) return note(path, 'must be an object');
+    unknownKeys(z, path, ['from', 'to', 'types', 'density'], note);
+    if (!isInt(z.from, 0)) note(`${path}.from`, 'must be a segment index, 0 or more');
+    if (!isInt(z.to, 0) || (isInt(z.from) && z.to <= z.from)) note(`${path}.to`, 'must be a segment index after from');
+    else if (totalSegments && z.to > totalSegments) note(`${path}.to`, `is past the finish (the track has ${totalSegments} segments)`);
+    if (!Array.isArray(z.types) || z.types.length === 0 || !z.types.every(t => isOneOf(t, OBSTACLE_TYPES))) {
+      note(`${path}.types`, `must list one or more of ${OBSTACLE_TYPES.join(', ')}`);
+    }
+    if (!isNum(z.density, 0, 1)) note(`${path}.density`, 'must be a number from 0 to 1');
+  });
+  return clean();
+};
+
+// Left out, the stage gets evenly spaced checkpoints.
+const isCheckpoints = (marks: unknown, totalSegments: number, report: Report): marks is number[] | undefined => {
+  if (marks === undefined) return true;
+  if (!Array.isArray(marks)) { report('checkpoints', 'must be an array of segment indices'); return false; }
+  const { note, clean } = tally(report);
+  marks.forEach((m: unknown, i) => {
+    if (!isInt(m, 1) || (totalSegments && m >= totalSegments)) note(`checkpoints[${i}]`, `must be a segment index between 1 and ${totalSegments - 1}`);
+    else if (i > 0 && m <= marks[i - 1]) note(`checkpoints[${i}]`, 'must be in increasing order');
+  });
+  return clean();
+};
+
+/**
+ * Checks a parsed track against the format and fills in the optional parts. `lineOf` maps a
+ * path to the line it came from; errors on paths it doesn't know use the nearest parent.
+ */
+export const validateTrack = (raw: unknown, lineOf: (path: string) => number = () => 0): TrackParseResult => {
+  const errors: TrackError[] = [];
+  const report: Report = (path, message) => { errors.push({ line: lineOf(path), path, message }); };
+
+  if (!isObject(raw)) {
+    report('', 'a track file must be a JSON object');
+    return { track: null, errors };
+  }
+  unknownKeys(raw, '', ['format', 'version', 'name', 'color', 'palette', 'weather', 'backdrop', 'traffic', 'sections', 'scenery', 'obstacles', 'checkpoints'], report);
+  const { format, version, name, color, weather, backdrop, traffic, sections, checkpoints: marks } = raw;
+  const palette = raw.palette ?? DEFAULT_PALETTE;
+  const scenery = raw.scenery ?? [];
+  const obstacles = raw.obstacles ?? [];
+
+  const formatOk = format === TRACK_FORMAT;
+  if (!formatOk) report('format', `must be "${TRACK_FORMAT}"`);
+  const versionOk = version === TRACK_VERSION;
+  if (!versionOk) report('version', `unsupported version ${JSON.stringify(version)}, expected ${TRACK_VERSION}`);
+  const nameOk = typeof name === 'string' && !!name.trim();
+  if (!nameOk) report('name', 'must be a non-empty string');
+  const colorOk = isColor(color);
+  if (!colorOk) report('color', 'must be a hex color like "#e2711d"');
+  const weatherOk = isOptional(weather, (w): w is WeatherKind => isOneOf(w, WEATHER_KINDS));
+  if (!weatherOk) report('weather', `must be one of ${WEATHER_KINDS.join(', ')}`);
+  const backdropOk = isOptional(backdrop, (b): b is BackdropLayer[] => Array.isArray(b) && b.every(l => isOneOf(l, BACKDROP_LAYERS)));
+  if (!backdropOk) report('backdrop', `must list layers from ${BACKDROP_LAYERS.join(', ')}, farthest first`);
+
+  // Counted from whichever sections are sound, so later checks can still place things against the finish.
+  const totalSegments = Array.isArray(sections)
+    ? sections.reduce((n: number, s: unknown) => n + (isObject(s) && isInt(s.length, 1) ? s.length : 0), 0)
+    : 0;
+  const paletteOk = isPalette(palette, report);
+  const trafficOk = isTraffic(traffic, report);
+  const sectionsOk = isSections(sections, report);
+  const sceneryOk = isScenery(scenery, report);
+  const obstaclesOk = isObstacles(obstacles, totalSegments, report);
+  const marksOk = isCheckpoints(marks, totalSegments, report);
+
+  if (errors.length || !(formatOk && versionOk && nameOk && colorOk && weatherOk && backdropOk &&
+      paletteOk && trafficOk && sectionsOk && sceneryOk && obstaclesOk && marksOk)) {
+    return { track: null, errors };
+  }
+  return { track: { format, version, name, color, palette, weather, backdrop, traffic, sections, scenery, obstacles, checkpoints: marks }, errors };
+};
+
+/** Parses and validates a track file's text, reporting syntax and format errors by line. */
+export const parseTrack = (text: string): TrackParseResult => {
+  try {
+    const { value, lines } = parseJsonWithLines(text);
+    const lineOf = (path: string): number => {
+      for (let p = path; ; p = p.replace(/(\.?[^.[\]]+|\[\d+\])$/, '')) {
+        const line = lines.get(p);
+        if (line !== undefined) return line;
+        if (!p) return 1;
+      }
+    };
+    return validateTrack(value, lineOf);
+  } catch (error) {
+    if (error instanceof JsonSyntaxError) return { track: null, errors: [{ line: error.line, path: '', message: error.message }] };
+    throw error;
+  }
+};
+
+export const formatTrackError = (e: TrackError) => `${e.line ? `Line ${e.line}: ` : ''}${e.path ? `${e.path} ` : ''}${e.message}`;
+
+export const serializeTrack = (track: TrackDefinition) => JSON.stringify(track, null, 2);
+
+/** Turns a validated track into the stage the race runs on. */
+export const loadStage = (track: TrackDefinition): Stage => {
+  const segments = track.sections.reduce((n, s) => n + s.length, 0);
+  const length = segments * SEGMENT_LENGTH;
+  return {
+    name: track.name,
+    length,
+    traffic: track.traffic.density,
+    color: track.color,
+    weather: track.weather ?? 'clear',
+    checkpoints: track.checkpoints ? [...track.checkpoints.map(m => m * SEGMENT_LENGTH), length] : checkpoints(length),
+    track
+  };
+};
+
+/** For tracks bundled with the game: a broken one is a build mistake, so fail loudly. */
+export const loadBuiltInTrack = (raw: unknown): Stage => {
+  const { track, errors } = validateTrack(raw);
+  if (!track) throw new Error(`Invalid built-in track ${isObject(raw) ? raw.name : raw}: ${errors.map(formatTrackError).join('; ')}`);
+  return loadStage(track);
+};
@@ -0,0 +1,178 @@
+import { Obstacle, TrafficVehicle } from "../types";
+import { hazardAhead } from "./hazards";
+import { THROW_SPEED } from "./wipeout";
+
+// Lane centres, in road widths. On a two-way stage the left pair carries oncoming traffic.
+export const LANES = [-0.75, -0.25, 0.25, 0.75];
+
+/**
+ * Build of each kind of vehicle: width (road widths), half its length (world z), pace
+ * against the stage's traffic speed, and how hard it is to hit.
+ */
+export const VEHICLE_SPECS: Record<TrafficVehicle['type'], { width: number; reach: number; pace: number; mass: number }> = {
+  sedan: { width: 0.5, reach: 200, pace: 1, mass: 1 },
+  truck: { width: 0.6, reach: 350, pace: 0.75, mass: 3 },
+  sports: { width: 0.45, reach: 180, pace: 1.3, mass: 0.8 },
+  police: { width: 0.5, reach: 200, pace: 1, mass: 1.5 }
+};
+
+// How far ahead (world z) drivers watch the car in front, and when they brake for it.
+const FOLLOW_RANGE = 1500;
+const SAFE_GAP = 600;
+const BRAKE_RATE = 60;
+const ACCEL_RATE = 20;
+// Seconds of indicator before a car moves over, how fast it does, and the room it wants.
+const SIGNAL_TIME = 1;
+const LANE_RATE = 0.6;
+const LANE_CLEAR = 800;
+// Drivers who get a fright slow to this share of their cruising speed, hazards flashing.
+const STARTLE_TIME = 1.5;
+const STARTLED_PACE = 0.6;
+// Anything passing this close beside a car (road widths past its side) gives it a fright.
+const NEAR_MISS = 0.3;
+// A fight within this distance (world z) scares the traffic around it.
+const ALARM_RANGE = 2000;
+// Racers steer around a car they would reach within this many seconds, at this rate.
+const DODGE_TIME = 0.5;
+const DODGE_RATE = 4;
+// Room racers leave beside a car, and how far onto the verge they will go to get round one.
+const DODGE_MARGIN = 0.1;
+const ROAD_EDGE = 1.2;
+// A car ignores further bumps for this long after a hit, so one crash is one hit.
+const CONTACT_TIME = 0.5;
+// Damage from the lightest knock; mass scales it, and a head-on doubles it.
+const HIT_DAMAGE = 15;
+// Hitting anything at least this heavy, or anything head-on, at speed throws the rider.
+const THROW_MASS = 2;
+
+/** Lanes a vehicle going `direction` may use. */
+export const lanesFor = (direction: 1 | -1, twoWay: boolean) =>
+  !twoWay ? [0, 1, 2, 3] : direction > 0 ? [2, 3] : [0, 1];
+
+export const createVehicle = (id: string, type: TrafficVehicle['type'], lane: number, direction: 1 | -1, z: number, cruise: number, color: string): TrafficVehicle => ({
+  id, type, color, lane, direction, z, cruise,
+  x: LANES[lane],
+  speed: cruise,
+  width: VEHICLE_SPECS[type].width,
+  signal: 0,
+  signalTime: 0,
+  startled: 0,
+  contact: 0
+});
+
+/** Whether a bike at (x, z) is touching `t`. */
+export const overlaps = (t: TrafficVehicle, x: number, z: number) =>
+  Math.abs(z - t.z) < VEHICLE_SPECS[t.type].reach && Math.abs(x - t.x) < t.width;
+
+/**
+ * Whether a bike now at `x` ran into `t` this tick: it ends the tick touching the car, or the two
+ * passed through each other in between, which closing head-on at speed they can do in one tick.
+ * The gaps are `t.z` less the bike's z before and after the step.
+ */
+export const meets = (t: TrafficVehicle, x: number, gapBefore: number, gapAfter: number) =>
+  Math.abs(x - t.x) < t.width && (Math.abs(gapAfter) < VEHICLE_SPECS[t.type].reach || Math.sign(gapBefore) !== Math.sign(gapAfter));
+
+/** The nearest vehicle in front of `t` (the way it is driving) in the same line, if close enough to matter. */
+const vehicleAhead = (traffic: TrafficVehicle[], t: TrafficVehicle) =>
+  traffic.reduce<TrafficVehicle | null>((best, o) => {
+    const gap = (o.z - t.z) * t.direction;
+    if (o === t || gap <= 0 || gap > FOLLOW_RANGE || Math.abs(o.x - t.x) > 0.4) return best;
+    return !best || gap < (best.z - t.z) * t.direction ? o : best;
+  }, null);
+
+/** A lane next to `t`'s that it may use and that has room alongside, or null. Overtaking (left) first. */
+const freeLane = (traffic: TrafficVehicle[], t: TrafficVehicle, obstacles: Obstacle[], twoWay: boolean) =>
+  [t.lane - t.direction, t.lane + t.direction].find(lane =>
+    lanesFor(t.direction, twoWay).includes(lane) &&
+    !traffic.some(o => o !== t && Math.abs(o.x - LANES[lane]) < 0.4 && Math.abs(o.z - t.z) < LANE_CLEAR) &&
+    !(t.direction > 0 && hazardAhead(obstacles, LANES[lane], t.z, FOLLOW_RANGE, 0.3))) ?? null;
+
+/**
+ * Civilian driving for one tick: keep to the lane, brake for slower traffic ahead, and
+ * signal then move over to get past it or around a hazard. Drivers brake for a slow
+ * `racer` in front too, and get a fright from one passing close. Police in pursuit drive
+ * themselves; see updatePolice.
+ */
+export const driveTraffic = (traffic: TrafficVehicle[], obstacles: Obstacle[], racers: { x: number; z: number; speed: number }[], twoWay: boolean, dt: number) => {
+  traffic.forEach(t => {
+    t.contact = Math.max(0, t.contact - dt);
+    t.startled = Math.max(0, t.startled - dt);
+    if (t.pursuit) return;
+
+    if (racers.some(r => Math.abs(r.z - t.z) < VEHICLE_SPECS[t.type].reach && Math.abs(r.x - t.x) >= t.width && Math.abs(r.x - t.x) < t.width + NEAR_MISS)) {
+      t.startled = STARTLE_TIME;
+    }
+
+    const leader = vehicleAhead(traffic, t);
+    const gap = leader ? Math.abs(leader.z - t.z) : Infinity;
+    const pace = t.startled > 0 ? t.cruise * STARTLED_PACE : t.cruise;
+    const bike = t.direction > 0 && racers.find(r => r.z > t.z && r.z - t.z < SAFE_GAP && Math.abs(r.x - t.x) < t.width);
+    if (bike && bike.speed < t.speed) t.speed = Math.max(bike.speed, t.speed - BRAKE_RATE * dt);
+    else if (leader && gap < SAFE_GAP && leader.speed < t.speed) t.speed = Math.max(leader.speed, t.speed - BRAKE_RATE * dt);
+    else if (t.speed > pace) t.speed = Math.max(pace, t.speed - BRAKE_RATE * dt);
+    else t.speed = Math.min(pace, t.speed + ACCEL_RATE * dt);
+
+    const hazard = t.direction > 0 && hazardAhead(obstacles, t.x, t.z, FOLLOW_RANGE, 0.3);
+    if (!t.signal && ((leader && leader.cruise < t.cruise) || hazard)) {
+      const lane = freeLane(traffic, t, obstacles, twoWay);
+      if (lane !== null) {
+        t.signal = lane > t.lane ? 1 : -1;
+        t.signalTime = SIGNAL_TIME;
+        t.lane = lane;
+      }
+    }
+
+    // Nobody moves over until the indicator has been on a while
+    if (t.signalTime > 0) {
+      t.signalTime -= dt;
+      return;
+    }
+    const offset = LANES[t.lane] - t.x;
+    t.x += Math.sign(offset) * Math.min(Math.abs(offset), LANE_RATE * dt);
+    if (t.signal && Math.abs(offset) < 0.01) t.signal = 0;
+  });
+};
+
+/** Startles every driver near a fight or a crash at `z`. */
+export const alarmTraffic = (traffic: TrafficVehicle[], z: number) => {
+  traffic.forEach(t => {
+    if (!t.pursuit && Math.abs(t.z - z) < ALARM_RANGE) t.startled = STARTLE_TIME;
+  });
+};
+
+/**
+ * Sideways move this tick for a racer to get round the traffic it is about to reach:
+ * towards the nearest gap beside those cars, staying on the road.
+ */
+export const dodgeTraffic = (traffic: TrafficVehicle[], racer: { x: number; z: number; speed: number }, dt: number) => {
+  const ahead = traffic.filter(t => {
+    const closing = (racer.speed - t.speed * t.direction) * 100;
+    return t.z > racer.z && closing > 0 && (t.z - racer.z) / closing < DODGE_TIME;
+  });
+  const blocked = (x: number) => ahead.some(t => Math.abs(t.x - x) < t.width + DODGE_MARGIN);
+  if (!blocked(racer.x)) return 0;
+  const gap = ahead
+    .flatMap(t => [t.x - t.width - 2 * DODGE_MARGIN, t.x + t.width + 2 * DODGE_MARGIN])
+    .filter(x => Math.abs(x) <= ROAD_EDGE && !blocked(x))
+    .reduce<number | null>((best, x) => best === null || Math.abs(x - racer.x) < Math.abs(best - racer.x) ? x : best, null);
+  // Boxed in: get as far from the nearest car as possible
+  const nearest = ahead.reduce((a, b) => b.z < a.z ? b : a);
+  const to = gap ?? (racer.x >= nearest.x ? ROAD_EDGE : -ROAD_EDGE);
+  return Math.sign(to - racer.x) * Math.min(Math.abs(to - racer.x), DODGE_RATE * dt);
+};
+
+/**
+ * What a bike going `speed` takes from running into `t`: damage, and whether the rider
+ * is thrown. Knocks the car aside and starts its contact cooldown.
+ */
+export const collide = (t: TrafficVehicle, bike: { x: number; speed: number; maxSpeed: number }) => {
+  const spec = VEHICLE_SPECS[t.type];
+  const headOn = t.direction < 0;
+  t.contact = CONTACT_TIME;
+  t.startled = STARTLE_TIME;
+  t.x += (t.x >= bike.x ? 1 : -1) * 0.2 / spec.mass;
+  return {
+    damage: HIT_DAMAGE * spec.mass * (headOn ? 2 : 1),
+    thrown: bike.speed > bike.maxSpeed * THROW_SPEED && (spec.mass >= THROW_MASS || headOn)
+  };
+};
@@ -0,0 +1,54 @@
+import { WeatherKind } from "../types";
+
+/** How a stage's weather and light change the race, and how it is drawn. */
+export interface WeatherProfile {
+  name: string;
+  // Multipliers on every bike's steering and brakes, and on top speed (for riding into a headwind).
+  grip: number;
+  braking: number;
+  drag: number;
+  // Share of DRAW_DISTANCE that can be seen. Rivals spot hazards that much later, too.
+  visibility: number;
+  sky: [string, string];
+  mountains: string;
+  // What the road fades into toward the limit of visibility; without one it just ends.
+  haze?: string;
+  // How dark the world is away from headlights and streetlights, 0 to 1.
+  darkness: number;
+  particles?: 'rain' | 'sand';
+  // A wet road mirrors whatever is on it.
+  wet: boolean;
+}
+
+export const WEATHER: Record<WeatherKind, WeatherProfile> = {
+  clear: { name: 'CLEAR', grip: 1, braking: 1, drag: 1, visibility: 1, sky: ['#000033', '#1a1a4a'], mountains: '#0a0a20', darkness: 0, wet: false },
+  night: { name: 'NIGHT', grip: 1, braking: 1, drag: 1, visibility: 0.7, sky: ['#000005', '#080818'], mountains: '#04040c', haze: '#080818', darkness: 0.8, wet: false },
+  rain: { name: 'RAIN', grip: 0.7, braking: 0.65, drag: 1, visibility: 0.75, sky: ['#1f2a35', '#45525f'], mountains: '#1a232c', haze: '#45525f', darkness: 0.35, particles: 'rain', wet: true },
+  fog: { name: 'FOG', grip: 0.95, braking: 0.9, drag: 1, visibility: 0.3, sky: ['#7d8790', '#b4bcc3'], mountains: '#9aa3ab', haze: '#b4bcc3', darkness: 0, wet: false },
+  sandstorm: { name: 'SANDSTORM', grip: 0.85, braking: 1, drag: 0.9, visibility: 0.5, sky: ['#7a4e24', '#c8955a'], mountains: '#8a5a2e', haze: '#c8955a', darkness: 0.1, particles: 'sand', wet: false }
+};
+
+export const WEATHER_KINDS = Object.keys(WEATHER) as WeatherKind[];
+
+// Haze is blended in these steps, so only a handful of shades of each colour are ever worked out.
+const HAZE_STEPS = 16;
+const hazeCache = new Map<string, string>();
+
+const channels = (hex: string) => {
+  const h = hex.length === 4 ? hex.slice(1).split('').map(c => c + c).join('') : hex.slice(1);
+  return [0, 2, 4].map(i => parseInt(h.slice(i, i + 2), 16));
+};
+
+/** `color` seen through `amount` (0 to 1) of `haze`. Both are hex colours. */
+export const hazeColor = (color: string, haze: string, amount: number) => {
+  const step = Math.round(Math.max(0, Math.min(1, amount)) * HAZE_STEPS);
+  if (step === 0) return color;
+  const key = `${color}${haze}${step}`;
+  let mixed = hazeCache.get(key);
+  if (!mixed) {
+    const from = channels(color), to = channels(haze);
+    mixed = `rgb(${from.map((c, i) => Math.round(c + (to[i] - c) * step / HAZE_STEPS)).join(', ')})`;
+    hazeCache.set(key, mixed);
+  }
+  return mixed;
+};
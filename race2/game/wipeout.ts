@@ -0,0 +1,47 @@
+import { Garage, Player, Rng } from "../types";
+import { kitValue } from "./garage";
+
+// The wreck that ends a career; set WRECK_LIMIT in .env.local to change it.
+export const WRECK_LIMIT = Number(process.env.WRECK_LIMIT) || 3;
+// Seconds from being thrown to getting back on, matching a rival's time down.
+export const WIPEOUT_TIME = 3;
+const REMOUNT_HEALTH = 50;
+// Hitting a truck, or anything head-on, faster than this share of top speed throws the rider.
+export const THROW_SPEED = 0.6;
+// How quickly (speed units/s) the bike scrapes to a halt on its side.
+const WIPEOUT_DRAG = 120;
+// Getting the bike back on the road costs more the more the bike and its parts are worth.
+const REPAIR_BASE = 100;
+const REPAIR_SHARE = 0.05;
+
+export const repairCost = (garage: Garage) => REPAIR_BASE + Math.round(REPAIR_SHARE * kitValue(garage));
+
+/** Throws the player off the bike, tumbling towards a random side. */
+export const startWipeout = (p: Player, rng: Rng) => {
+  p.wipeout = WIPEOUT_TIME;
+  p.tumble = rng.chance(0.5) ? 1 : -1;
+  p.wrecks++;
+  p.attackType = 'normal';
+  p.attackTime = 0;
+  p.slip = 0;
+  p.slide = 0;
+  p.lean = 0;
+};
+
+/**
+ * Slides the downed bike to a stop. Returns true on the tick the rider is ready to get
+ * back on; the caller decides whether they can.
+ */
+export const updateWipeout = (p: Player, dt: number) => {
+  p.speed = Math.max(0, p.speed - WIPEOUT_DRAG * dt);
+  p.x += p.tumble * (p.speed / p.maxSpeed) * dt;
+  p.wipeout -= dt;
+  return p.wipeout <= 0;
+};
+
+/** Puts the rider back on the bike, on the road, with some health back. */
+export const remount = (p: Player) => {
+  p.wipeout = 0;
+  p.health = Math.max(p.health, REMOUNT_HEALTH);
+  p.x = Math.max(-0.8, Math.min(0.8, p.x));
+};
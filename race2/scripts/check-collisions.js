@@ -0,0 +1,49 @@
+// Puts an oncoming car in the player's line at full speed, from a spread of starting gaps,
+// and fails if any of them gets past the bike without contact. Closing head-on, the two cover
+// more than a car's length in a tick, so this is where a collision check can miss.
+import { createServer } from 'vite';
+
+const RUNS = 40;
+const GAP = 3000;
+const GAP_STEP = 23;
+
+const server = await createServer({ appType: 'custom', logLevel: 'error', server: { middlewareMode: true, ws: false } });
+try {
+  const { FIXED_DT, NO_INPUT } = await server.ssrLoadModule('/game/headless.ts');
+  const { NEW_CAREER, createRace, stepRace } = await server.ssrLoadModule('/game/simulation.ts');
+  const { STAGES } = await server.ssrLoadModule('/game/stages.ts');
+  const { createVehicle } = await server.ssrLoadModule('/game/traffic.ts');
+  let misses = 0;
+
+  STAGES.forEach((stage, stageIndex) => {
+    let missed = 0;
+    for (let i = 0; i < RUNS; i++) {
+      const sim = createRace(stageIndex, NEW_CAREER, 1, 'timeTrial');
+      // Past the hold on the grid, alone on the road with one car coming the other way
+      sim.time = 60;
+      const p = sim.player;
+      p.z = 5000;
+      const car = createVehicle('head-on', 'sedan', 0, -1, p.z + GAP + i * GAP_STEP, stage.track.traffic.speed[1], '#fff');
+      sim.traffic = [car];
+
+      let hit = false;
+      while (!hit && car.z > p.z - GAP) {
+        p.x = car.x;
+        p.speed = p.maxSpeed;
+        const health = p.health;
+        stepRace(sim, { ...NO_INPUT, accelerate: true }, FIXED_DT);
+        hit = car.contact > 0 || p.health < health;
+      }
+      if (!hit) missed++;
+    }
+    misses += missed;
+    console.log(`${missed ? 'MISS' : 'ok  '} ${stage.name}: ${RUNS - missed} of ${RUNS} head-on cars made contact`);
+  });
+
+  if (misses) {
+    console.error(`${misses} head-on car(s) passed through the player`);
+    process.exitCode = 1;
+  }
+} finally {
+  await server.close();
+}
@@ -0,0 +1,36 @@
+// Races every stage twice through the headless runner with the same seeds and inputs, and
+// fails if any pair of results differs. Vite loads the TypeScript sources, so nothing is built.
+import { createServer } from 'vite';
+
+const SEEDS = [1, 42, 2024];
+// Enough steering, fighting and nitro to reach most of the simulation.
+const STEPS = [
+  { until: 3, input: { accelerate: true } },
+  { until: 5, input: { accelerate: true, left: true, punchLeft: true } },
+  { until: 8, input: { accelerate: true, right: true, nitro: true } },
+  { until: 10, input: { accelerate: true, kick: true } },
+  { until: 12, input: { brake: true, block: true } },
+  { until: 600, input: { accelerate: true } }
+];
+
+const server = await createServer({ appType: 'custom', logLevel: 'error', server: { middlewareMode: true, ws: false } });
+try {
+  const { runHeadless, scriptInputs } = await server.ssrLoadModule('/game/headless.ts');
+  const { STAGES } = await server.ssrLoadModule('/game/stages.ts');
+  let mismatches = 0;
+
+  STAGES.forEach((stage, stageIndex) => SEEDS.forEach(seed => {
+    const run = () => runHeadless({ seed, stageIndex, input: scriptInputs(STEPS) });
+    const first = run();
+    const same = JSON.stringify(first) === JSON.stringify(run());
+    if (!same) mismatches++;
+    console.log(`${same ? 'ok  ' : 'DIFF'} ${stage.name} seed ${seed}: ${first.status} after ${first.time.toFixed(2)}s, ${first.finishOrder.join(' ')}`);
+  }));
+
+  if (mismatches) {
+    console.error(`${mismatches} race(s) came out differently on the second run`);
+    process.exitCode = 1;
+  }
+} finally {
+  await server.close();
+}
@@ -0,0 +1,34 @@
+import { callAIDecisionEngine } from "./geminiService";
+import { localDecisionEngine } from "./localDecisionEngine";
+import { DecisionResponse, Obstacle, Opponent, Player, RaceState } from "../types";
+
+/** Anything that can make decisions for the rivals, given the same context the Gemini prompt gets. */
+export interface DecisionEngine {
+  name: string;
+  // `hazards` are the active ones on the stretch of road the racers are about to cover.
+  decide: (player: Player, rivals: Opponent[], raceState: RaceState, tick: number, hazards: Obstacle[]) => Promise<DecisionResponse | null>;
+}
+
+export type DecisionBackend = 'gemini' | 'local';
+
+export const geminiDecisionEngine: DecisionEngine = {
+  name: 'gemini',
+  decide: callAIDecisionEngine
+};
+
+// Set DECISION_ENGINE=local in .env.local to force the offline engine. Without an API key
+// there is no point in trying Gemini at all.
+export const DECISION_BACKEND: DecisionBackend =
+  process.env.DECISION_ENGINE === 'local' || !process.env.API_KEY ? 'local' : 'gemini';
+
+/** Uses `primary`, and asks `fallback` whenever `primary` throws or comes back empty. */
+export const withFallback = (primary: DecisionEngine, fallback: DecisionEngine): DecisionEngine => ({
+  name: `${primary.name}+${fallback.name}`,
+  decide: async (player, rivals, raceState, tick, hazards) => {
+    const response = await primary.decide(player, rivals, raceState, tick, hazards).catch(() => null);
+    return response ?? fallback.decide(player, rivals, raceState, tick, hazards);
+  }
+});
+
+export const createDecisionEngine = (backend: DecisionBackend = DECISION_BACKEND): DecisionEngine =>
+  backend === 'gemini' ? withFallback(geminiDecisionEngine, localDecisionEngine) : localDecisionEngine;
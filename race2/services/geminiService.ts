@@ -1,18 +1,28 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
 // Fix: Opponent is the correct exported type from ../types, not Rival.
-import { Player, Opponent, RaceState } from "../types";
+import { Player, Opponent, RaceState, DecisionResponse, RaceRecap, RaceResult, Obstacle } from "../types";
+import { formatTime } from "../game/timing";
+import { ValidationDiagnostic, validateDecisionResponse, validateRaceRecap } from "./responseValidator";
 
-// Always use the process.env.API_KEY directly for initializing GoogleGenAI.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Always use the process.env.API_KEY directly for initializing GoogleGenAI. The client is only
+// made on the first call: in a browser it throws without a key, and a game running on the local
+// engine imports this module without ever calling it.
+let ai: GoogleGenAI | null = null;
+const client = () => ai ?? (ai = new GoogleGenAI({ apiKey: process.env.API_KEY }));
+
+const reportRepairs = (source: string, diagnostics: ValidationDiagnostic[]) => {
+  diagnostics.forEach(d => console.warn(`${source} reply repaired at ${d.path || '(root)'}: ${d.issue}`));
+};
 
 // Fix: Updated rivals parameter type to Opponent[].
 export const callAIDecisionEngine = async (
   player: Player,
   rivals: Opponent[],
   raceState: RaceState,
-  tick: number
-) => {
+  tick: number,
+  hazards: Obstacle[]
+): Promise<DecisionResponse | null> => {
   const context = {
     player,
     rivals,
@@ -20,7 +30,8 @@ export const callAIDecisionEngine = async (
       ...raceState,
       eventLog: raceState.eventLog.slice(-15) // Slightly more history
     },
-    tick
+    tick,
+    hazards: hazards.map(({ type, x, z }) => ({ type, x: Number(x.toFixed(2)), z: Math.round(z) }))
   };
 
   const prompt = `You are the Neural Decision Engine for NEURAL RUSH: LA Underground.
@@ -29,26 +40,38 @@ export const callAIDecisionEngine = async (
   ${JSON.stringify(context, null, 2)}
   
   YOUR ROLE:
-  You control 4 AI rivals (VIPER, CIPHER, HAVOC, GHOST). 
+  You control 5 AI rivals (VIPER, CIPHER, HAVOC, GHOST, RAZOR). 
   
   GOALS:
   1. VIPER: Win at all costs. Hates the player if they block him.
   2. CIPHER: Analyzes heat. Will betray others to lower his own heat.
   3. HAVOC: Pure aggression. Wants to crash whoever is closest.
   4. GHOST: Loyal but fearful. Will follow the player or CIPHER's lead.
+  5. RAZOR: A second predator. Never forgets who put him on the ground.
+
+  MEMORY:
+  Each rival's 'relations' holds its grudge, respect and fear (0-100) toward the player and
+  every other rival, built up over the whole career from hits, knockdowns, bounties and finishes.
+  A deep grudge should pick targets and accept bounties; fear should keep a rival away from someone.
   
   DECISION REQUIREMENTS:
-  - rivalActions: specific game actions (aggressive_push, defensive_block, nitro_burst, pit_maneuver).
+  - rivalActions: specific game actions (aggressive_push, defensive_block, nitro_burst, pit_maneuver, hazard_shove).
+    hazard_shove rams the target sideways into the nearest hazard ahead of it (see hazards: oil slides, rocks crash, potholes hurt).
+    aggressive_push rides alongside the target and swings at it with whatever weapon the rival holds (chain, club or fists).
+    nitro_burst burns the rival's nitro (nitro of nitroMax in its snapshot); with an empty tank it is only a hard push.
   - emotionalUpdates: Reflect memory of past turns.
+  - allianceActions: 'propose' an alliance to a racer (the player answers on the road) or 'break' one.
+    raceState.allianceMap lists current pairs ("cipher+ghost"); nobody has more than one ally. Allies
+    never attack each other and split bounty money, so a betrayal (break, then strike) should be rare and mean it.
   - bountyResponses: How rivals react to active bounties (accept to hunt the target, or decline).
   - policeAction: If heat > 40, police might intercept specific cars.
-  - positionChanges: Re-order the 'positions' array (ids: viper, cipher, havoc, ghost, player) based on your logic.
+  - positionChanges: Re-order the 'positions' array (ids: viper, cipher, havoc, ghost, razor, player) based on your logic.
   - commentary: A snarky, high-octane line from one of the rivals.
 
   RETURN ONLY VALID JSON matching the schema.`;
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await client().models.generateContent({
       model: "gemini-3-flash-preview",
       contents: prompt,
       config: {
@@ -68,6 +91,18 @@ export const callAIDecisionEngine = async (
                 }
               }
             },
+            allianceActions: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  rivalId: { type: Type.STRING },
+                  action: { type: Type.STRING },
+                  target: { type: Type.STRING },
+                  reasoning: { type: Type.STRING }
+                }
+              }
+            },
             emotionalUpdates: {
               type: Type.ARRAY,
               items: {
@@ -115,7 +150,12 @@ export const callAIDecisionEngine = async (
     });
 
     // Access the extracted text output using the .text property.
-    return JSON.parse(response.text || '{}');
+    const { value, diagnostics } = validateDecisionResponse(JSON.parse(response.text || '{}'), {
+      racerIds: raceState.positions.length ? raceState.positions : [...rivals.map(r => r.id), 'player'],
+      bountyIds: raceState.activeBounties.map(b => b.id)
+    });
+    reportRepairs("AI Decision Engine", diagnostics);
+    return value;
   } catch (error) {
     console.error("AI Decision Engine Error:", error);
     return null;
@@ -126,22 +166,40 @@ export const callAIDecisionEngine = async (
 export const generateRaceRecap = async (
   player: Player,
   rivals: Opponent[],
-  raceState: RaceState
-) => {
+  raceState: RaceState,
+  results: RaceResult[]
+): Promise<RaceRecap | null> => {
+  const table = results
+    .map(r => `  ${r.position}. ${r.name} (${r.id}) ${formatTime(r.time)}${r.position > 1 ? ` +${r.gap.toFixed(2)}s` : ''}${r.estimated ? ' (projected, still on the road)' : ''}`)
+    .join("\n");
+  const events = raceState.eventLog
+    .filter(e => e.description)
+    .slice(-25)
+    .map(e => `  - [tick ${e.tick}] ${e.description}`)
+    .join("\n");
+  const bounties = raceState.activeBounties
+    .map(b => `  - ${b.initiatorId} put $${b.amount} on ${b.targetId} (${b.condition}, ${b.visibility}): ${b.status}${b.claimedBy ? `, claimed by ${b.claimedBy}` : ''}`)
+    .join("\n");
   const prompt = `Generate a cinematic 'After Action Report' for NEURAL RUSH.
   
   FINAL RESULTS:
-  - 1st to 5th: ${raceState.positions.join(", ")}
-  - Total Lap Time: 2:45.32 (Simulated)
-  - Heat Level Final: ${raceState.heatLevel}
+${table}
+  - Heat Level Final: ${Math.round(raceState.heatLevel)}
+
+  WHAT HAPPENED:
+${events || '  - A clean race. Suspiciously clean.'}
+
+  BOUNTIES:
+${bounties || '  - None'}
   
   Write this as a mix of underground news, social media posts, and personal rival messages.
-  Focus on any "betrayals" or "bounties" that happened.
+  Only report what is listed above. Focus on any "betrayals" or "bounties" that happened.
+  Rival ids for rivalQuotes: ${rivals.map(r => r.id).join(", ")}.
   
   Output JSON format. Ensure high-quality, edgy writing.`;
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await client().models.generateContent({
       model: "gemini-3-pro-preview",
       contents: prompt,
       config: {
@@ -179,7 +237,9 @@ export const generateRaceRecap = async (
       }
     });
     // Access the extracted text output using the .text property.
-    return JSON.parse(response.text || '{}');
+    const { value, diagnostics } = validateRaceRecap(JSON.parse(response.text || '{}'), rivals.map(r => r.id));
+    reportRepairs("Recap Generation", diagnostics);
+    return value;
   } catch (error) {
     console.error("Recap Generation Error:", error);
     return null;
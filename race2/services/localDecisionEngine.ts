@@ -0,0 +1,222 @@
+import { AllianceAction, Archetype, DecisionResponse, EmotionalState, Obstacle, Opponent, Player, RaceState, RivalAction } from "../types";
+import type { DecisionEngine } from "./decisionEngine";
+import { CHATTER } from "./radioChatter";
+import { allyOf, willAlly } from "../game/alliances";
+import { hazardAhead } from "../game/hazards";
+import { FEUD_GRUDGE, bitterest, feelingsFor } from "../game/relationships";
+
+// Heat above which the police get involved and CIPHER starts looking after himself.
+const POLICE_HEAT = 40;
+// Longitudinal distance (world units) within which two racers count as close.
+const CLOSE_RANGE = 1500;
+const CONTACT_RANGE = 300;
+// A rival this afraid of a bounty's target won't go after it for any money.
+const SCARED = 50;
+
+interface Racer {
+  id: string;
+  x: number;
+  z: number;
+  health: number;
+}
+
+// A hazard worth shoving someone into: close ahead of them and within a shove of their line.
+// Cones only slow a bike down, so they don't count.
+const trapFor = (victim: Racer, hazards: Obstacle[]) =>
+  hazardAhead(hazards.filter(h => h.type !== 'cone'), victim.x, victim.z, CLOSE_RANGE, 0.8);
+
+const nearest = (self: Racer, others: Racer[]) =>
+  others.reduce<Racer | null>((best, r) =>
+    !best || Math.abs(r.z - self.z) < Math.abs(best.z - self.z) ? r : best, null);
+
+// Whoever `o` has a feud with among `others` close by, if anyone.
+const feudNearby = (o: Opponent, others: Racer[]) =>
+  bitterest(o, others.filter(r => Math.abs(r.z - o.z) < CLOSE_RANGE).map(r => r.id));
+
+const moodFor = (o: Opponent, player: Player, leaderId: string): EmotionalState => {
+  if (o.health < 30) return 'Desperate';
+  const toward = feelingsFor(o, 'player');
+  if (toward.fear >= SCARED && toward.fear > toward.grudge) return 'Fearful';
+  if (toward.grudge >= FEUD_GRUDGE) return 'Vengeful';
+  switch (o.archetype) {
+    case Archetype.Predator:
+      return leaderId === o.id ? 'Smug' : (player.z > o.z ? 'Vengeful' : 'Confident');
+    case Archetype.Strategist:
+      return 'Calculating';
+    case Archetype.ChaosAgent:
+      return o.health < 60 ? 'Furious' : 'Smug';
+    case Archetype.Loyalist:
+      return o.health < 60 ? 'Fearful' : 'Confident';
+  }
+};
+
+/**
+ * Picks one action per rival from its archetype. Loyalists copy whatever the strategist
+ * decided, so they are resolved after everyone else.
+ */
+const decideActions = (player: Player, rivals: Opponent[], raceState: RaceState, hazards: Obstacle[]): RivalAction[] => {
+  const racing = rivals.filter(o => o.state === 'racing');
+  const playerRacer: Racer = { id: 'player', x: player.x, z: player.z, health: player.health };
+  const leaderId = raceState.positions[0];
+  const actions: RivalAction[] = [];
+
+  racing.filter(o => o.archetype !== Archetype.Loyalist).forEach(o => {
+    const others = [playerRacer, ...racing.filter(r => r.id !== o.id)];
+    const dz = player.z - o.z;
+
+    // An old score to settle comes before anything else, strategists excepted
+    const feud = o.archetype !== Archetype.Strategist && feudNearby(o, others);
+    if (feud) {
+      actions.push({ rivalId: o.id, action: 'aggressive_push', target: feud, reasoning: `Settling the score with ${feud.toUpperCase()}.` });
+      return;
+    }
+
+    switch (o.archetype) {
+      case Archetype.Predator: {
+        const blocked = dz > 0 && dz < CLOSE_RANGE && Math.abs(player.x - o.x) < 0.5;
+        const trap = blocked && trapFor(playerRacer, hazards);
+        if (trap) {
+          actions.push({ rivalId: o.id, action: 'hazard_shove', target: 'player', reasoning: `Putting the player into that ${trap.type}.` });
+        } else if (blocked) {
+          actions.push({ rivalId: o.id, action: 'aggressive_push', target: 'player', reasoning: 'Player is sitting in my line.' });
+        } else if (leaderId !== o.id) {
+          actions.push({ rivalId: o.id, action: 'nitro_burst', target: leaderId, reasoning: 'Not leading. Unacceptable.' });
+        } else if (dz < 0 && dz > -CLOSE_RANGE) {
+          actions.push({ rivalId: o.id, action: 'defensive_block', target: 'player', reasoning: 'Nobody passes me.' });
+        }
+        break;
+      }
+      case Archetype.Strategist: {
+        if (raceState.heatLevel > POLICE_HEAT) {
+          // Its own ally first: the alliance is broken the same round, see decideAlliances
+          const ally = allyOf(raceState, o.id);
+          const scapegoat = racing.find(r => r.id === ally) ?? nearest(o, racing.filter(r => r.id !== o.id));
+          if (scapegoat) {
+            actions.push({ rivalId: o.id, action: 'pit_maneuver', target: scapegoat.id, reasoning: 'Betraying an ally to shed heat.' });
+            break;
+          }
+        }
+        if (dz < 0 && dz > -CLOSE_RANGE) {
+          actions.push({ rivalId: o.id, action: 'defensive_block', target: 'player', reasoning: 'Hold position, conserve.' });
+        } else if (dz > CLOSE_RANGE) {
+          actions.push({ rivalId: o.id, action: 'nitro_burst', target: 'player', reasoning: 'Gap is too large, close it now.' });
+        }
+        break;
+      }
+      case Archetype.ChaosAgent: {
+        const victim = nearest(o, others);
+        if (!victim || Math.abs(victim.z - o.z) > CLOSE_RANGE) {
+          actions.push({ rivalId: o.id, action: 'nitro_burst', target: 'player', reasoning: 'Nobody to hit. Go find someone.' });
+        } else if (trapFor(victim, hazards)) {
+          actions.push({ rivalId: o.id, action: 'hazard_shove', target: victim.id, reasoning: 'Road hazard ahead. Perfect.' });
+        } else {
+          const action = Math.abs(victim.z - o.z) < CONTACT_RANGE ? 'pit_maneuver' : 'aggressive_push';
+          actions.push({ rivalId: o.id, action, target: victim.id, reasoning: 'Closest target.' });
+        }
+        break;
+      }
+    }
+  });
+
+  const lead = actions.find(a => racing.find(o => o.id === a.rivalId)?.archetype === Archetype.Strategist);
+  racing.filter(o => o.archetype === Archetype.Loyalist).forEach(o => {
+    // Too scared to start anything once it has taken a beating.
+    if (o.health < 60) return;
+    const feud = feudNearby(o, [playerRacer, ...racing.filter(r => r.id !== o.id)]);
+    if (feud) {
+      actions.push({ rivalId: o.id, action: 'aggressive_push', target: feud, reasoning: `Even I have limits, ${feud.toUpperCase()}.` });
+      return;
+    }
+    if (lead && lead.target !== 'player' && lead.target !== o.id) {
+      actions.push({ rivalId: o.id, action: lead.action, target: lead.target, reasoning: "Following CIPHER's lead." });
+    } else if (player.z > o.z && player.z - o.z < CLOSE_RANGE && feelingsFor(o, 'player').respect >= feelingsFor(o, 'player').grudge) {
+      actions.push({ rivalId: o.id, action: 'defensive_block', target: nearest(o, racing.filter(r => r.id !== o.id))?.id || 'player', reasoning: 'Covering the player.' });
+    }
+  });
+
+  return actions;
+};
+
+/**
+ * Who rides with whom. CIPHER sells out its ally once the police are involved, and anyone
+ * walks out on an ally it has come to feud with. Loyalists without one look to the player
+ * when close and on good terms, otherwise to CIPHER, who is happy to have one while the
+ * heat is low.
+ */
+const decideAlliances = (player: Player, rivals: Opponent[], raceState: RaceState): AllianceAction[] => {
+  const racing = rivals.filter(o => o.state === 'racing');
+  const unattached = (id: string) => !allyOf(raceState, id);
+  const actions: AllianceAction[] = [];
+
+  racing.forEach(o => {
+    const ally = allyOf(raceState, o.id);
+    if (ally) {
+      if (o.archetype === Archetype.Strategist && raceState.heatLevel > POLICE_HEAT) {
+        actions.push({ rivalId: o.id, action: 'break', target: ally, reasoning: 'Heat is too high. Someone has to take the fall.' });
+      } else if (feelingsFor(o, ally).grudge >= FEUD_GRUDGE) {
+        actions.push({ rivalId: o.id, action: 'break', target: ally, reasoning: 'I was never riding with you.' });
+      }
+      return;
+    }
+    let partner: string | undefined;
+    if (o.archetype === Archetype.Loyalist) {
+      partner = Math.abs(player.z - o.z) < CLOSE_RANGE && unattached('player') && willAlly(o, 'player')
+        ? 'player'
+        : racing.find(r => r.archetype === Archetype.Strategist && unattached(r.id) && willAlly(o, r.id))?.id;
+    } else if (o.archetype === Archetype.Strategist && raceState.heatLevel <= POLICE_HEAT) {
+      partner = racing.find(r => r.archetype === Archetype.Loyalist && unattached(r.id))?.id;
+    }
+    if (partner) actions.push({ rivalId: o.id, action: 'propose', target: partner, reasoning: 'Safer in numbers.' });
+  });
+
+  return actions;
+};
+
+const decideBounties = (rivals: Opponent[], raceState: RaceState): NonNullable<DecisionResponse['bountyResponses']> =>
+  raceState.activeBounties
+    .filter(b => b.status === 'active')
+    .flatMap(b => rivals
+      .filter(o => o.id !== b.initiatorId && o.id !== b.targetId && !b.acceptedBy.includes(o.id))
+      .map(o => {
+        const toward = feelingsFor(o, b.targetId);
+        let accept: boolean;
+        switch (o.archetype) {
+          case Archetype.Predator: accept = b.targetId === 'player'; break;
+          case Archetype.Strategist: accept = b.amount >= 500 && raceState.heatLevel <= POLICE_HEAT; break;
+          case Archetype.ChaosAgent: accept = true; break;
+          case Archetype.Loyalist: accept = b.targetId !== 'player'; break;
+        }
+        // A grudge takes any excuse; fear turns down any price
+        if (toward.grudge >= FEUD_GRUDGE) accept = true;
+        if (toward.fear >= SCARED) accept = false;
+        return { bountyId: b.id, rivalId: o.id, decision: accept ? 'accept' : 'decline' };
+      }));
+
+/**
+ * Offline stand-in for the Gemini engine. Purely a function of its inputs, so the same
+ * race state always produces the same decisions.
+ */
+export const decideLocally = (player: Player, rivals: Opponent[], raceState: RaceState, tick: number, hazards: Obstacle[]): DecisionResponse => {
+  const leaderId = raceState.positions[0] || 'player';
+  const rivalActions = decideActions(player, rivals, raceState, hazards);
+
+  const speaker = rivals.find(o => o.id === rivalActions[tick % Math.max(1, rivalActions.length)]?.rivalId) || rivals[0];
+  const lines = speaker ? CHATTER[speaker.archetype].taunt : [];
+
+  return {
+    rivalActions,
+    allianceActions: decideAlliances(player, rivals, raceState),
+    emotionalUpdates: rivals.map(o => ({ rivalId: o.id, newState: moodFor(o, player, leaderId), intensityChange: 0 })),
+    bountyResponses: decideBounties(rivals, raceState),
+    commentary: speaker && lines.length ? { speaker: speaker.name, text: lines[tick % lines.length] } : undefined,
+    policeAction: raceState.heatLevel > POLICE_HEAT
+      ? { active: true, target: leaderId, description: 'Units moving to intercept the race leader.' }
+      : { active: false },
+    positionChanges: raceState.positions
+  };
+};
+
+export const localDecisionEngine: DecisionEngine = {
+  name: 'local',
+  decide: async (player, rivals, raceState, tick, hazards) => decideLocally(player, rivals, raceState, tick, hazards)
+};
@@ -0,0 +1,86 @@
+import { Archetype, EventLogEntry, Opponent, Player, RaceRecap, RaceResult, RaceState } from "../types";
+import { formatTime } from "../game/timing";
+
+// Event types worth a line in the highlights, most newsworthy first.
+const HIGHLIGHT_ORDER = ['busted', 'wipeout', 'betrayal', 'knockdown', 'hazard', 'traffic', 'block', 'bountyComplete', 'alliance', 'bountyShared', 'policeDispatched', 'bountyPosted', 'bountyAccepted', 'bountyFailed'];
+const MAX_HIGHLIGHTS = 5;
+
+const QUOTES: Record<Archetype, { won: string[]; lost: string[] }> = {
+  [Archetype.Predator]: {
+    won: ["Told you. The front is mine.", "Nobody touches me out there."],
+    lost: ["Enjoy it. Next stage I'm coming through you.", "That wasn't racing. That was luck."]
+  },
+  [Archetype.Strategist]: {
+    won: ["Exactly as projected.", "Patience pays. Literally."],
+    lost: ["Variance. The numbers even out.", "I let them burn their tyres. Next time it counts."]
+  },
+  [Archetype.ChaosAgent]: {
+    won: ["WHO'S NEXT?!", "First place AND sparks. Perfect night."],
+    lost: ["Didn't win, didn't care, broke stuff. Ten out of ten.", "Somebody owes me a new fender. Everybody, actually."]
+  },
+  [Archetype.Loyalist]: {
+    won: ["I... actually won? Don't tell anyone.", "Stayed in the pack, stayed alive, got lucky."],
+    lost: ["At least I made it home in one piece.", "I was just covering for the crew."]
+  }
+};
+
+const HANDLES = ['exhaust_prophet', 'LA_nightcrawler', 'redline_rita', 'sir_skidmark', 'ghost_in_the_grid', 'pit_lane_pete'];
+
+// Picks from `list` by a number derived from the race, so a given race always reads the same.
+const pick = <T>(list: T[], n: number) => list[Math.abs(n) % list.length];
+
+const countOf = (log: EventLogEntry[], type: string) => log.filter(e => e.type === type).length;
+
+/**
+ * Offline stand-in for generateRaceRecap. Builds the same report from templates, using only
+ * what actually happened: the results, the event log, the bounties and the heat.
+ */
+export const composeLocalRecap = (
+  player: Player,
+  rivals: Opponent[],
+  raceState: RaceState,
+  results: RaceResult[]
+): RaceRecap => {
+  const log = raceState.eventLog;
+  const heat = Math.round(raceState.heatLevel);
+  const winner = results[0];
+  const mine = results.find(r => r.id === 'player');
+  const n = log.length + (mine?.position || 0);
+  const busts = countOf(log, 'busted');
+  const knockdowns = countOf(log, 'knockdown');
+  const claimed = raceState.activeBounties.filter(b => b.status === 'complete');
+
+  const headline = !winner ? 'RACE ENDS IN CHAOS'
+    : winner.id === 'player' ? pick(['NEW BLOOD TAKES THE CROWN', 'UNKNOWN RIDER OWNS THE NIGHT', 'THE ROOKIE DELIVERS'], n)
+    : heat >= 50 ? `${winner.name} WINS AS THE CITY BURNS`
+    : pick([`${winner.name} TAKES IT`, `${winner.name} RULES THE STREETS AGAIN`, `NOBODY CATCHES ${winner.name}`], n);
+
+  const summary = [
+    winner && `${winner.id === 'player' ? 'You' : winner.name} crossed first in ${formatTime(winner.time)}.`,
+    mine && mine.position > 1 && `You came home P${mine.position}, ${mine.gap.toFixed(2)}s back.`,
+    knockdowns > 0 && `${knockdowns} rider${knockdowns > 1 ? 's' : ''} hit the asphalt.`,
+    claimed.length > 0 && `${claimed.length} bount${claimed.length > 1 ? 'ies were' : 'y was'} collected.`,
+    busts > 0 ? `The police made ${busts} stop${busts > 1 ? 's' : ''}.` : heat >= 50 ? `Heat hit ${heat} and every scanner in the city lit up.` : 'The cops never got a clean look.'
+  ].filter(Boolean).join(' ');
+
+  const eventHighlights = log
+    .filter(e => e.description && HIGHLIGHT_ORDER.includes(e.type))
+    .filter((e, i, all) => all.findIndex(x => x.description === e.description) === i)
+    .sort((a, b) => HIGHLIGHT_ORDER.indexOf(a.type) - HIGHLIGHT_ORDER.indexOf(b.type) || a.tick - b.tick)
+    .slice(0, MAX_HIGHLIGHTS)
+    .map(e => e.description!);
+
+  const rivalQuotes = rivals.map((o, i) => {
+    const won = results.findIndex(r => r.id === o.id) < results.findIndex(r => r.id === 'player');
+    const lines = QUOTES[o.archetype][won ? 'won' : 'lost'];
+    return { rivalId: o.id, quote: pick(lines, n + i), mood: o.emotionalState || (won ? 'Smug' : 'Furious') };
+  });
+
+  const forumBuzz = [
+    { user: pick(HANDLES, n), text: winner ? `${winner.name} in ${formatTime(winner.time)}?? somebody check that bike.` : 'did anyone actually finish', upvotes: 40 + (n * 7) % 200 },
+    { user: pick(HANDLES, n + 1), text: heat >= 50 ? `heat at ${heat}. scanner chatter was INSANE tonight` : 'quiet night for the cops. too quiet.', upvotes: 10 + heat * 3 },
+    { user: pick(HANDLES, n + 2), text: mine && mine.position <= 3 ? 'that new rider is the real deal' : 'new rider got cooked lol', upvotes: 5 + (n * 13) % 120 }
+  ];
+
+  return { headline, summary, eventHighlights, rivalQuotes, forumBuzz };
+};
@@ -0,0 +1,26 @@
+import { generateRaceRecap } from "./geminiService";
+import { composeLocalRecap } from "./localRecap";
+import { DECISION_BACKEND, DecisionBackend } from "./decisionEngine";
+import { Opponent, Player, RaceRecap, RaceResult, RaceState } from "../types";
+
+export interface RecapReply {
+  recap: RaceRecap;
+  // Who wrote it: Gemini, or the local templates when Gemini is off or failed.
+  source: DecisionBackend;
+}
+
+/** Never fails: a Gemini recap when that backend is configured and answers, the local one otherwise. */
+export const fetchRaceRecap = async (
+  player: Player,
+  rivals: Opponent[],
+  raceState: RaceState,
+  results: RaceResult[],
+  backend: DecisionBackend = DECISION_BACKEND
+): Promise<RecapReply> => {
+  const remote = backend === 'gemini'
+    ? await generateRaceRecap(player, rivals, raceState, results).catch(() => null)
+    : null;
+  return remote
+    ? { recap: remote, source: 'gemini' }
+    : { recap: composeLocalRecap(player, rivals, raceState, results), source: 'local' };
+};
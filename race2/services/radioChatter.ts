@@ -0,0 +1,81 @@
+import { Archetype, Commentary, EventLogEntry, Opponent } from "../types";
+
+/** Everything a rival says over the radio without an AI writing it. */
+interface ChatterLines {
+  // Idle trash talk, for the local decision engine's commentary.
+  taunt: string[];
+  // Putting someone down, or cashing in a bounty.
+  scored: string[];
+  // Being put down.
+  hurt: string[];
+  betrayed: string[];
+  busted: string[];
+}
+
+export const CHATTER: Record<Archetype, ChatterLines> = {
+  [Archetype.Predator]: {
+    taunt: [
+      "Second place is just the first loser.",
+      "Get out of my line or get put in the wall.",
+      "I can smell your fear through the exhaust."
+    ],
+    scored: ["Stay down.", "That's what happens in my line.", "Next."],
+    hurt: ["You just made this personal.", "Cheap shot. I'll remember it.", "I'm getting back up. You won't."],
+    betrayed: ["Should've known better than to ride with anyone.", "You picked the wrong back to stab."],
+    busted: ["Get your hands off the bike!", "This isn't over."]
+  },
+  [Archetype.Strategist]: {
+    taunt: [
+      "Every move you make, I already ran the numbers on.",
+      "Nothing personal. The math just says you go down.",
+      "Heat's rising. Someone has to take the fall, and it isn't me."
+    ],
+    scored: ["As calculated.", "One variable removed.", "Collected. Moving on."],
+    hurt: ["Unplanned. Recalculating.", "Noted. Adjusting the model.", "That will cost you later."],
+    betrayed: ["Bold. Also a mistake.", "I'd have done the same. Sooner."],
+    busted: ["My lawyer will have this sorted by the next stage.", "An acceptable loss."]
+  },
+  [Archetype.ChaosAgent]: {
+    taunt: [
+      "WHO WANTS TO KISS THE ASPHALT?!",
+      "Closest bike eats my boot. Those are the rules.",
+      "Crash, burn, repeat. Best night ever!"
+    ],
+    scored: ["BOOM! DID YOU SEE THAT?!", "Hahaha! Again! Again!", "That one's going on the highlight reel!"],
+    hurt: ["Ow! DO IT AGAIN!", "Oh, it's ON now!", "Hahaha, my teeth!"],
+    betrayed: ["Ha! Didn't see that one coming. Respect.", "Now THAT'S chaos!"],
+    busted: ["Worth it!", "Tell the cops I said hi. Oh wait."]
+  },
+  [Archetype.Loyalist]: {
+    taunt: [
+      "I've got your back... just don't make me regret it.",
+      "Following the plan. Whatever the plan is.",
+      "Stay close, stay alive."
+    ],
+    scored: ["Sorry! Sorry. Had to.", "Did I... did I do that?", "Just following orders."],
+    hurt: ["Why me?!", "I'm okay! I'm... mostly okay.", "Somebody cover me!"],
+    betrayed: ["I trusted you!", "After everything I did for you?"],
+    busted: ["I was just following the others!", "Please, it's my first offence!"]
+  }
+};
+
+// Same idea as the recap: the line follows from the race, so a replay always says the same thing.
+const pick = (list: string[], n: number) => list[Math.abs(n) % list.length];
+
+/**
+ * A rival's reaction to a logged event, if one of them has something to say about it: the
+ * one put down, turned on or pulled over, or the one who did the damage to another rival or
+ * cashed in a bounty.
+ */
+export const chatterFor = (e: EventLogEntry, opponents: Opponent[]): Commentary | null => {
+  const actor = opponents.find(o => o.id === e.actor);
+  const target = opponents.find(o => o.id === e.target);
+  const say = (o: Opponent | undefined, kind: keyof ChatterLines) => o ? { speaker: o.name, text: pick(CHATTER[o.archetype][kind], e.tick) } : null;
+  switch (e.type) {
+    case 'knockdown': return e.actor === 'player' ? say(target, 'hurt') : say(actor, 'scored');
+    case 'bountyComplete': return say(actor, 'scored');
+    case 'betrayal': return say(target, 'betrayed');
+    case 'busted': return say(target, 'busted');
+    default: return null;
+  }
+};
@@ -0,0 +1,284 @@
+import {
+  AllianceAction,
+  BountyResponse,
+  DecisionResponse,
+  EmotionalState,
+  EmotionalUpdate,
+  RaceRecap,
+  RivalAction,
+  RivalActionType
+} from "../types";
+
+export const RIVAL_ACTIONS: RivalActionType[] = ['aggressive_push', 'defensive_block', 'nitro_burst', 'pit_maneuver', 'hazard_shove'];
+export const EMOTIONAL_STATES: EmotionalState[] = ['Confident', 'Furious', 'Desperate', 'Calculating', 'Fearful', 'Vengeful', 'Smug'];
+const BOUNTY_DECISIONS: BountyResponse['decision'][] = ['accept', 'decline'];
+const ALLIANCE_MOVES: AllianceAction['action'][] = ['propose', 'break'];
+
+const MAX_TEXT_LENGTH = 280;
+
+/** One repair the validator made to a model reply. */
+export interface ValidationDiagnostic {
+  path: string;
+  issue: string;
+}
+
+export interface Validated<T> {
+  value: T;
+  diagnostics: ValidationDiagnostic[];
+}
+
+/** What the reply is checked against: the racers and bounties that actually exist. */
+export interface DecisionContext {
+  // Current running order, 'player' included.
+  racerIds: string[];
+  bountyIds: string[];
+}
+
+type Report = (path: string, issue: string) => void;
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Matches case-insensitively so 'furious' or 'NITRO_BURST' are repaired rather than lost.
+const matchOption = <T extends string>(v: unknown, options: T[], path: string, report: Report): T | undefined => {
+  if (typeof v !== 'string') {
+    report(path, `expected one of ${options.join(', ')}, got ${JSON.stringify(v)}; dropped`);
+    return undefined;
+  }
+  const match = options.find(o => o.toLowerCase() === v.trim().toLowerCase());
+  if (!match) report(path, `unknown value "${v}"; dropped`);
+  else if (match !== v) report(path, `normalised "${v}" to "${match}"`);
+  return match;
+};
+
+const readText = (v: unknown, path: string, report: Report): string | undefined => {
+  if (v === undefined) return undefined;
+  if (typeof v !== 'string') {
+    report(path, `expected a string, got ${typeof v}; dropped`);
+    return undefined;
+  }
+  if (v.length > MAX_TEXT_LENGTH) {
+    report(path, `truncated from ${v.length} characters`);
+    return v.slice(0, MAX_TEXT_LENGTH);
+  }
+  return v;
+};
+
+const readArray = (v: unknown, path: string, report: Report): unknown[] => {
+  if (v === undefined) return [];
+  if (!Array.isArray(v)) {
+    report(path, 'expected an array; dropped');
+    return [];
+  }
+  return v;
+};
+
+const readRivalId = (v: unknown, rivalIds: string[], path: string, report: Report): string | undefined => {
+  if (typeof v === 'string' && rivalIds.includes(v)) return v;
+  report(path, `unknown rival ${JSON.stringify(v)}; entry dropped`);
+  return undefined;
+};
+
+const validateRivalActions = (raw: unknown, ctx: DecisionContext, report: Report): RivalAction[] => {
+  const rivalIds = ctx.racerIds.filter(id => id !== 'player');
+  const seen = new Set<string>();
+  const actions: RivalAction[] = [];
+
+  readArray(raw, 'rivalActions', report).forEach((entry, i) => {
+    const path = `rivalActions[${i}]`;
+    if (!isObject(entry)) return report(path, 'not an object; dropped');
+    const rivalId = readRivalId(entry.rivalId, rivalIds, `${path}.rivalId`, report);
+    const action = matchOption(entry.action, RIVAL_ACTIONS, `${path}.action`, report);
+    if (!rivalId || !action) return;
+    if (seen.has(rivalId)) return report(path, `second action for ${rivalId}; dropped`);
+    seen.add(rivalId);
+
+    let target = typeof entry.target === 'string' ? entry.target : undefined;
+    if (!target || !ctx.racerIds.includes(target) || target === rivalId) {
+      report(`${path}.target`, `invalid target ${JSON.stringify(entry.target)}; replaced with "player"`);
+      target = 'player';
+    }
+    actions.push({ rivalId, action, target, reasoning: readText(entry.reasoning, `${path}.reasoning`, report) });
+  });
+
+  return actions;
+};
+
+const validateAllianceActions = (raw: unknown, ctx: DecisionContext, report: Report): AllianceAction[] => {
+  const rivalIds = ctx.racerIds.filter(id => id !== 'player');
+  const actions: AllianceAction[] = [];
+
+  readArray(raw, 'allianceActions', report).forEach((entry, i) => {
+    const path = `allianceActions[${i}]`;
+    if (!isObject(entry)) return report(path, 'not an object; dropped');
+    const rivalId = readRivalId(entry.rivalId, rivalIds, `${path}.rivalId`, report);
+    const action = matchOption(entry.action, ALLIANCE_MOVES, `${path}.action`, report);
+    if (!rivalId || !action) return;
+    // Unlike an attack there is no sensible default partner, so a bad target loses the entry
+    if (typeof entry.target !== 'string' || !ctx.racerIds.includes(entry.target) || entry.target === rivalId) {
+      return report(`${path}.target`, `invalid target ${JSON.stringify(entry.target)}; entry dropped`);
+    }
+    actions.push({ rivalId, action, target: entry.target, reasoning: readText(entry.reasoning, `${path}.reasoning`, report) });
+  });
+
+  return actions;
+};
+
+const validateEmotionalUpdates = (raw: unknown, ctx: DecisionContext, report: Report): EmotionalUpdate[] => {
+  const rivalIds = ctx.racerIds.filter(id => id !== 'player');
+  const updates: EmotionalUpdate[] = [];
+
+  readArray(raw, 'emotionalUpdates', report).forEach((entry, i) => {
+    const path = `emotionalUpdates[${i}]`;
+    if (!isObject(entry)) return report(path, 'not an object; dropped');
+    const rivalId = readRivalId(entry.rivalId, rivalIds, `${path}.rivalId`, report);
+    const newState = matchOption(entry.newState, EMOTIONAL_STATES, `${path}.newState`, report);
+    if (!rivalId || !newState) return;
+
+    let intensityChange: number | undefined;
+    if (typeof entry.intensityChange === 'number' && Number.isFinite(entry.intensityChange)) {
+      intensityChange = Math.max(-1, Math.min(1, entry.intensityChange));
+      if (intensityChange !== entry.intensityChange) report(`${path}.intensityChange`, `clamped ${entry.intensityChange} to ${intensityChange}`);
+    } else if (entry.intensityChange !== undefined) {
+      report(`${path}.intensityChange`, 'not a finite number; dropped');
+    }
+    updates.push({ rivalId, newState, intensityChange });
+  });
+
+  return updates;
+};
+
+const validateBountyResponses = (raw: unknown, ctx: DecisionContext, report: Report): BountyResponse[] => {
+  const rivalIds = ctx.racerIds.filter(id => id !== 'player');
+  const responses: BountyResponse[] = [];
+
+  readArray(raw, 'bountyResponses', report).forEach((entry, i) => {
+    const path = `bountyResponses[${i}]`;
+    if (!isObject(entry)) return report(path, 'not an object; dropped');
+    if (typeof entry.bountyId !== 'string' || !ctx.bountyIds.includes(entry.bountyId)) {
+      return report(`${path}.bountyId`, `unknown bounty ${JSON.stringify(entry.bountyId)}; entry dropped`);
+    }
+    const rivalId = readRivalId(entry.rivalId, rivalIds, `${path}.rivalId`, report);
+    const decision = matchOption(entry.decision, BOUNTY_DECISIONS, `${path}.decision`, report);
+    if (rivalId && decision) responses.push({ bountyId: entry.bountyId, rivalId, decision });
+  });
+
+  return responses;
+};
+
+/**
+ * Repairs `positionChanges` into a permutation of the real racer ids: unknown and repeated
+ * ids are removed, and anyone the model left out keeps their current relative order at the back.
+ */
+const validatePositions = (raw: unknown, ctx: DecisionContext, report: Report): string[] | undefined => {
+  if (raw === undefined) return undefined;
+  const listed = readArray(raw, 'positionChanges', report);
+  const order: string[] = [];
+
+  listed.forEach((id, i) => {
+    if (typeof id !== 'string' || !ctx.racerIds.includes(id)) report(`positionChanges[${i}]`, `unknown racer ${JSON.stringify(id)}; removed`);
+    else if (order.includes(id)) report(`positionChanges[${i}]`, `duplicate "${id}"; removed`);
+    else order.push(id);
+  });
+
+  const missing = ctx.racerIds.filter(id => !order.includes(id));
+  if (missing.length) report('positionChanges', `missing ${missing.join(', ')}; appended in current order`);
+  return [...order, ...missing];
+};
+
+/**
+ * Checks a decision engine reply against the live race and repairs what it can.
+ * Yields null when the reply is not an object at all.
+ */
+export const validateDecisionResponse = (raw: unknown, ctx: DecisionContext): Validated<DecisionResponse | null> => {
+  const diagnostics: ValidationDiagnostic[] = [];
+  const report: Report = (path, issue) => { diagnostics.push({ path, issue }); };
+
+  if (!isObject(raw)) {
+    report('', 'reply is not a JSON object; ignored');
+    return { value: null, diagnostics };
+  }
+
+  const value: DecisionResponse = {
+    rivalActions: validateRivalActions(raw.rivalActions, ctx, report),
+    allianceActions: validateAllianceActions(raw.allianceActions, ctx, report),
+    emotionalUpdates: validateEmotionalUpdates(raw.emotionalUpdates, ctx, report),
+    bountyResponses: validateBountyResponses(raw.bountyResponses, ctx, report),
+    positionChanges: validatePositions(raw.positionChanges, ctx, report)
+  };
+
+  if (isObject(raw.commentary)) {
+    const speaker = readText(raw.commentary.speaker, 'commentary.speaker', report);
+    const text = readText(raw.commentary.text, 'commentary.text', report);
+    if (speaker && text) value.commentary = { speaker, text };
+    else report('commentary', 'needs both speaker and text; dropped');
+  } else if (raw.commentary !== undefined) {
+    report('commentary', 'not an object; dropped');
+  }
+
+  if (isObject(raw.policeAction)) {
+    const target = typeof raw.policeAction.target === 'string' && ctx.racerIds.includes(raw.policeAction.target)
+      ? raw.policeAction.target
+      : undefined;
+    if (raw.policeAction.target !== undefined && !target) report('policeAction.target', `unknown racer ${JSON.stringify(raw.policeAction.target)}; dropped`);
+    if (typeof raw.policeAction.active !== 'boolean') report('policeAction.active', 'not a boolean; treated as inactive');
+    value.policeAction = {
+      active: raw.policeAction.active === true && !!target,
+      target,
+      description: readText(raw.policeAction.description, 'policeAction.description', report)
+    };
+  } else if (raw.policeAction !== undefined) {
+    report('policeAction', 'not an object; dropped');
+  }
+
+  return { value, diagnostics };
+};
+
+/**
+ * Checks a recap reply. Yields null when there is nothing usable (no headline and no
+ * summary); otherwise fills the gaps with empty values.
+ */
+export const validateRaceRecap = (raw: unknown, rivalIds: string[]): Validated<RaceRecap | null> => {
+  const diagnostics: ValidationDiagnostic[] = [];
+  const report: Report = (path, issue) => { diagnostics.push({ path, issue }); };
+
+  if (!isObject(raw)) {
+    report('', 'reply is not a JSON object; ignored');
+    return { value: null, diagnostics };
+  }
+
+  const headline = readText(raw.headline, 'headline', report);
+  const summary = readText(raw.summary, 'summary', report);
+  if (!headline && !summary) {
+    report('', 'no headline or summary; ignored');
+    return { value: null, diagnostics };
+  }
+  if (!headline) report('headline', 'missing; left empty');
+  if (!summary) report('summary', 'missing; left empty');
+
+  const eventHighlights = readArray(raw.eventHighlights, 'eventHighlights', report)
+    .map((h, i) => readText(h, `eventHighlights[${i}]`, report))
+    .filter((h): h is string => !!h);
+
+  const rivalQuotes = readArray(raw.rivalQuotes, 'rivalQuotes', report).flatMap((q, i) => {
+    const path = `rivalQuotes[${i}]`;
+    if (!isObject(q)) { report(path, 'not an object; dropped'); return []; }
+    const rivalId = readRivalId(q.rivalId, rivalIds, `${path}.rivalId`, report);
+    const quote = readText(q.quote, `${path}.quote`, report);
+    if (!rivalId || !quote) return [];
+    return [{ rivalId, quote, mood: readText(q.mood, `${path}.mood`, report) || '' }];
+  });
+
+  const forumBuzz = readArray(raw.forumBuzz, 'forumBuzz', report).flatMap((post, i) => {
+    const path = `forumBuzz[${i}]`;
+    if (!isObject(post)) { report(path, 'not an object; dropped'); return []; }
+    const text = readText(post.text, `${path}.text`, report);
+    if (!text) { report(`${path}.text`, 'missing; post dropped'); return []; }
+    let upvotes = typeof post.upvotes === 'number' && Number.isFinite(post.upvotes) ? Math.round(post.upvotes) : 0;
+    if (upvotes < 0) upvotes = 0;
+    if (upvotes !== post.upvotes) report(`${path}.upvotes`, `repaired ${JSON.stringify(post.upvotes)} to ${upvotes}`);
+    return [{ user: readText(post.user, `${path}.user`, report) || 'anon', text, upvotes }];
+  });
+
+  return { value: { headline: headline || '', summary: summary || '', eventHighlights, rivalQuotes, forumBuzz }, diagnostics };
+};
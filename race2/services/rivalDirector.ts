@@ -0,0 +1,240 @@
+import { DecisionEngine } from "./decisionEngine";
+import { DecisionResponse, EventLogEntry, Opponent, RaceState } from "../types";
+import { acceptBounty } from "../game/bounties";
+import { canSwing, startWindup } from "../game/combat";
+import { areAllied, breakAlliance, formAlliance, offerAlliance, willAlly } from "../game/alliances";
+import { speedCap } from "../game/nitro";
+
+// Seconds of race time between decision engine calls.
+export const DECISION_INTERVAL = 4;
+// How long a rival keeps executing an action before falling back to default driving.
+const DIRECTIVE_DURATION = 3.5;
+const PUSH_SPEED_FACTOR = 1.1;
+// Furthest (road widths) a hazard_shove can move its target sideways.
+const HAZARD_SHOVE = 0.8;
+
+/** Anything a rival can steer toward or hit: the player or another opponent. */
+export interface RivalTarget {
+  x: number;
+  z: number;
+  speed: number;
+  health: number;
+}
+
+/** Result of a rival ramming its target while executing its directive. */
+export interface RivalImpact {
+  target: string;
+  damage: number;
+  shove: number;
+}
+
+type DecisionRequest = Parameters<DecisionEngine['decide']>;
+
+/**
+ * Throttles decision engine calls to one in flight at a time, every `interval` seconds
+ * of race time. Responses are picked up on a later frame, so the race loop never waits.
+ */
+export const createDecisionScheduler = (engine: DecisionEngine, interval = DECISION_INTERVAL) => {
+  let elapsed = 0;
+  let inFlight = false;
+  let generation = 0;
+  let pending: DecisionResponse | null = null;
+
+  return {
+    // Drops whatever is pending and ignores replies to requests made before the reset.
+    reset() {
+      elapsed = 0;
+      pending = null;
+      generation++;
+    },
+    update(dt: number, buildRequest: () => DecisionRequest) {
+      elapsed += dt;
+      if (inFlight || elapsed < interval) return;
+      elapsed = 0;
+      inFlight = true;
+      const requestGeneration = generation;
+      engine.decide(...buildRequest())
+        .then(response => {
+          if (response && requestGeneration === generation) pending = response;
+        })
+        .catch(error => console.error("Decision Scheduler Error:", error))
+        .finally(() => { inFlight = false; });
+    },
+    take(): DecisionResponse | null {
+      const response = pending;
+      pending = null;
+      return response;
+    }
+  };
+};
+
+export type DecisionScheduler = ReturnType<typeof createDecisionScheduler>;
+
+/**
+ * Hands the engine's decisions to the matching opponents and returns the event log
+ * entries describing them. Rivals that are no longer in the race are skipped.
+ */
+export const applyDecision = (opponents: Opponent[], race: RaceState, response: DecisionResponse, tick: number): EventLogEntry[] => {
+  const events: EventLogEntry[] = [];
+  const byId = new Map(opponents.map(o => [o.id, o]));
+
+  // Alliances first, so a rival that has just turned on its ally can go after it this round.
+  // An offer to another rival is settled on the spot; the player answers theirs on the road.
+  response.allianceActions?.forEach(a => {
+    const o = byId.get(a.rivalId);
+    if (!o || o.state === 'down') return;
+    const partner = byId.get(a.target);
+    let event: EventLogEntry | null = null;
+    if (a.action === 'break') event = breakAlliance(race, o.id, a.target, tick, a.reasoning);
+    else if (a.target === 'player') event = offerAlliance(race, o.id, tick);
+    else if (partner && partner.state !== 'down' && willAlly(partner, o.id)) event = formAlliance(race, o.id, partner.id, tick);
+    if (event) events.push(event);
+  });
+
+  response.rivalActions?.forEach(a => {
+    const o = byId.get(a.rivalId);
+    if (!o || o.state === 'down') return;
+    const target = a.target && (a.target === 'player' || byId.has(a.target)) ? a.target : 'player';
+    // Allies don't go after each other; that takes a betrayal first
+    if (areAllied(race, o.id, target)) return;
+    o.directive = { action: a.action, target, timer: DIRECTIVE_DURATION };
+    events.push({ type: a.action, actor: o.id, target, tick, description: a.reasoning });
+  });
+
+  // A rival that takes a contract goes after the target straight away, unless it is
+  // already busy with something the engine asked for this round. Nobody takes one on an ally.
+  response.bountyResponses?.forEach(r => {
+    const b = race.activeBounties.find(x => x.id === r.bountyId);
+    if (r.decision !== 'accept' || !b || areAllied(race, r.rivalId, b.targetId)) return;
+    const event = acceptBounty(race.activeBounties, r.bountyId, r.rivalId, tick);
+    if (!event) return;
+    events.push(event);
+    const o = byId.get(r.rivalId);
+    if (o && !o.directive && o.state !== 'down') {
+      o.directive = { action: b.condition === 'block' ? 'defensive_block' : 'aggressive_push', target: b.targetId, timer: DIRECTIVE_DURATION };
+    }
+  });
+
+  response.emotionalUpdates?.forEach(u => {
+    const o = byId.get(u.rivalId);
+    if (o) o.emotionalState = u.newState;
+  });
+
+  // The engine can't move bikes directly; a rival it ranks higher than it currently is
+  // gets a small pace bonus, one it ranks lower eases off.
+  if (response.positionChanges?.length) {
+    const current = [...opponents].sort((a, b) => b.z - a.z).map(o => o.id);
+    response.positionChanges.filter(id => byId.has(id)).forEach((id, desired) => {
+      const o = byId.get(id);
+      if (!o) return;
+      const diff = current.indexOf(id) - desired;
+      o.paceBias = Math.max(-0.1, Math.min(0.1, diff * 0.03));
+    });
+  }
+
+  if (response.commentary?.text) {
+    events.push({ type: 'commentary', actor: response.commentary.speaker, tick, description: response.commentary.text });
+  }
+
+  if (response.policeAction?.active) {
+    events.push({ type: 'police', actor: 'police', target: response.policeAction.target, tick, description: response.policeAction.description });
+  }
+
+  return events;
+};
+
+/**
+ * Turns a rival's current directive into steering, speed and attacks against its target.
+ * Swings only wind up here; the simulation lands them. Returns the impact when the rival
+ * rams its target, or null. Returns null without touching
+ * the rival when it has no directive, so the caller can fall back to default driving.
+ * `trap` is the hazard ahead of the target that a hazard_shove aims it at, if any.
+ */
+export const driveRival = (o: Opponent, target: RivalTarget, dt: number, trap: { x: number } | null = null): RivalImpact | null => {
+  const d = o.directive;
+  if (!d) return null;
+  d.timer -= dt;
+  if (d.timer <= 0) {
+    o.directive = undefined;
+    o.attacking = false;
+    return null;
+  }
+
+  const dz = target.z - o.z;
+  const dx = target.x - o.x;
+  const side = dx < 0 ? -1 : 1;
+  const alongside = Math.abs(dz) < 250 && Math.abs(dx) < 0.6;
+  let impact: RivalImpact | null = null;
+
+  switch (d.action) {
+    case 'aggressive_push':
+      // Ride alongside, just out of the target's line, close enough to swing at it.
+      o.targetX = target.x - side * 0.4;
+      o.speed = Math.min(speedCap(o) * PUSH_SPEED_FACTOR, o.speed + 25 * dt);
+      o.attacking = alongside;
+      if (alongside && canSwing(o)) startWindup(o, d.target, side);
+      break;
+    case 'defensive_block':
+      // Only a rival in front can block: sit in the target's line and match its pace.
+      if (dz < 0 && dz > -1500) {
+        o.targetX = target.x;
+        o.speed = Math.max(target.speed * 0.95, o.speed - 20 * dt);
+      }
+      break;
+    case 'nitro_burst':
+      // The simulation lights the nitro for this; with an empty tank it is just a hard push.
+      o.speed = Math.min(speedCap(o) * (o.boosting ? 1 : PUSH_SPEED_FACTOR), o.speed + 60 * dt);
+      break;
+    case 'pit_maneuver':
+      // Pull alongside, then swing into the target's flank.
+      o.targetX = target.x - side * 0.3;
+      o.speed = Math.min(speedCap(o) * PUSH_SPEED_FACTOR, o.speed + 20 * dt);
+      if (alongside) {
+        impact = { target: d.target, damage: 8, shove: side * 0.6 };
+        o.directive = undefined;
+      }
+      break;
+    case 'hazard_shove': {
+      // A pit maneuver from whichever side knocks the target into the hazard's line.
+      const shove = trap ? Math.max(-HAZARD_SHOVE, Math.min(HAZARD_SHOVE, trap.x - target.x)) : side * 0.6;
+      o.targetX = target.x - (shove < 0 ? -1 : 1) * 0.3;
+      o.speed = Math.min(speedCap(o) * PUSH_SPEED_FACTOR, o.speed + 20 * dt);
+      if (alongside) {
+        impact = { target: d.target, damage: 5, shove };
+        o.directive = undefined;
+      }
+      break;
+    }
+  }
+
+  o.x += (o.targetX - o.x) * Math.min(1, 3 * dt);
+  return impact;
+};
+
+// --- SNAPSHOTS ---
+
+// Only the fields the engine reasons about; directives and pace bias stay local.
+export const buildRivalSnapshot = (o: Opponent): Opponent => ({
+  id: o.id,
+  name: o.name,
+  color: o.color,
+  difficulty: o.difficulty,
+  x: o.x,
+  z: o.z,
+  speed: o.speed,
+  maxSpeed: o.maxSpeed,
+  health: o.health,
+  state: o.state,
+  stateTimer: o.stateTimer,
+  targetX: o.targetX,
+  attacking: o.attacking,
+  attackType: o.attackType,
+  attackTime: o.attackTime,
+  weapon: o.weapon,
+  nitro: o.nitro,
+  nitroMax: o.nitroMax,
+  boosting: o.boosting,
+  archetype: o.archetype,
+  emotionalState: o.emotionalState,
+  relations: o.relations
+});
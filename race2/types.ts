@@ -8,27 +8,81 @@ export enum Archetype {
 
 export type EmotionalState = 'Confident' | 'Furious' | 'Desperate' | 'Calculating' | 'Fearful' | 'Vengeful' | 'Smug';
 
+export type RivalActionType = 'aggressive_push' | 'defensive_block' | 'nitro_burst' | 'pit_maneuver' | 'hazard_shove';
+
+export interface RivalDirective {
+  action: RivalActionType;
+  target: string; // 'player' or a rival id
+  timer: number;
+}
+
+/** How a rival feels about another racer, each feeling from 0 to 100. */
+export interface Relationship {
+  grudge: number;
+  respect: number;
+  fear: number;
+}
+
+// A rival's feelings about everyone else in the field, keyed by 'player' or a rival id.
+export type Relations = Record<string, Relationship>;
+
+export type PartSlot = 'engine' | 'tires' | 'brakes' | 'armor' | 'nitro' | 'weapon';
+
+/** The player's bikes and parts: what is owned, what is fitted, and the shape the bike is in. */
+export interface Garage {
+  bike: string;
+  paint: string;
+  // Ids of the bikes and parts bought; stock ones come free and aren't listed.
+  owned: string[];
+  // The part fitted in each slot.
+  parts: Record<PartSlot, string>;
+  // Health each bike starts its next race with, keyed by bike id; missing means undamaged.
+  // Damage carries over from race to race until it is repaired.
+  condition: Record<string, number>;
+}
+
 export interface Player {
   name: string;
   reputation: number;
   fear: number;
   respect: number;
   money: number;
+  score: number;
   health: number;
   speed: number;
   z: number;
   x: number;
+  lean: number;
   maxSpeed: number;
   acceleration: number;
+  // Speed lost per second on the brakes, and how sharply the bike turns (1 is stock).
+  braking: number;
+  handling: number;
   combatPower: number;
-  upgrades: {
-    speed: number;
-    accel: number;
-    combat: number;
-  };
+  // Share of incoming damage the armour soaks up.
+  armor: number;
+  garage: Garage;
   attacking?: boolean;
-  attackType?: string;
+  attackType: string;
+  attackTime: number;
   attackCooldown?: number;
+  weapon?: Weapon;
+  finishPos: number;
+  bustedTimer: number;
+  // Road hazards: seconds of lost grip left, sideways slide (road widths/s), seconds of bounce left.
+  slip: number;
+  slide: number;
+  bounce: number;
+  // Seconds until the rider is back on the bike (0 while riding), the side they were thrown
+  // to, and wrecks so far this career.
+  wipeout: number;
+  tumble: number;
+  wrecks: number;
+  // Nitro in the tank and its size, whether it is burning, and whether the bike is in a slipstream.
+  nitro: number;
+  nitroMax: number;
+  boosting: boolean;
+  drafting: boolean;
 }
 
 export interface Opponent {
@@ -46,17 +100,48 @@ export interface Opponent {
   targetX: number;
   attacking: boolean;
   attackType: string;
+  attackTime?: number;
+  attackCooldown?: number;
+  // Who the wind-up in attackType is aimed at: 'player' or a rival id.
+  strikeTarget?: string;
+  weapon?: Weapon;
   archetype: Archetype;
+  emotionalState?: EmotionalState;
+  // Carried over from earlier stages, and updated as the race goes.
+  relations: Relations;
+  directive?: RivalDirective;
+  paceBias?: number;
+  slip?: number;
+  slide?: number;
+  bounce?: number;
+  nitro: number;
+  nitroMax: number;
+  boosting: boolean;
+}
+
+export interface Pursuit {
+  targetId: string;
+  slot: number; // -1 / 1 alongside the target, 0 in front of it
+  bustTimer: number;
+  givingUp: boolean;
 }
 
 export interface TrafficVehicle {
   id: string;
-  type: 'sedan' | 'truck' | 'sports';
+  type: 'sedan' | 'truck' | 'sports' | 'police';
   x: number;
   z: number;
   speed: number;
   color: string;
   width: number;
+  lane: number; // Index into LANES: the lane it keeps to, or is moving over into
+  direction: 1 | -1; // -1 for oncoming traffic
+  cruise: number; // The speed it drives at on a clear road
+  signal: number; // Indicator: -1 left, 1 right, 0 off
+  signalTime: number; // Seconds of indicator still to show before it moves over
+  startled: number; // Seconds left of braking with hazards on after a fright
+  contact: number; // Seconds before it can be hit again
+  pursuit?: Pursuit;
 }
 
 export interface Obstacle {
@@ -67,6 +152,39 @@ export interface Obstacle {
   active: boolean;
 }
 
+export type WeaponType = 'chain' | 'club';
+
+export interface Weapon {
+  type: WeaponType;
+  uses: number; // Hits left before it breaks
+}
+
+export interface NitroCan {
+  id: string;
+  x: number;
+  z: number;
+  taken: boolean;
+}
+
+export interface WeaponPickup {
+  id: string;
+  type: WeaponType;
+  x: number;
+  z: number;
+  taken: boolean;
+}
+
+export interface Particle {
+  type: 'smoke' | 'spark' | 'dust';
+  x: number;
+  z: number;
+  vx: number;
+  vz: number;
+  life: number;
+  size: number;
+  color: string;
+}
+
 export interface SceneryObject {
   type: 'tree' | 'billboard' | 'streetlight' | 'building';
   x: number; // Offset from road center (-2 to 2 typically)
@@ -75,17 +193,106 @@ export interface SceneryObject {
   color?: string;
 }
 
+export interface RoadPoint {
+  world: { x: number; y: number; z: number };
+  screen: { x: number; y: number; w: number; z: number; scale: number };
+}
+
 export interface RoadSegment {
   index: number;
   z: number;
   y: number;
   curve: number;
-  p1: { world: { x: number; y: number; z: number }; screen: { x: number; y: number; w: number; z: number; scale: number } };
-  p2: { world: { x: number; y: number; z: number }; screen: { x: number; y: number; w: number; z: number; scale: number } };
+  p1: RoadPoint;
+  p2: RoadPoint;
   color: { road: string; grass: string; rumble: string; lane: string };
   scenery: SceneryObject[];
 }
 
+export interface Stage {
+  name: string;
+  length: number;
+  traffic: number; // density, used for spawning and for how much speeding draws heat
+  color: string;
+  weather: WeatherKind;
+  // World z of each checkpoint; the last one is the finish line.
+  checkpoints: number[];
+  track: TrackDefinition;
+}
+
+// --- TRACK FILES ---
+
+/** A stage's weather and light; see game/weather for what each one does. */
+export type WeatherKind = 'clear' | 'night' | 'rain' | 'fog' | 'sandstorm';
+
+/** A layer of the scenery on the horizon; see game/scenery. */
+export type BackdropLayer = 'mountains' | 'city' | 'ocean';
+
+/** A stretch of road. Curves ease in and out over the section; `hill` is the height gained (or lost) across it. */
+export interface TrackSection {
+  length: number; // segments
+  curve: number;
+  hill: number;
+  traffic?: number; // multiplier on how much traffic spawns here, default 1
+}
+
+/** Repeating roadside scenery: one object every `every` segments from `start`, within [from, to). */
+export interface SceneryRule {
+  type: SceneryObject['type'];
+  every: number;
+  start?: number;
+  from?: number;
+  to?: number;
+  side: 'left' | 'right' | 'both' | 'random';
+  offset: [number, number];
+  scale?: number;
+  // Paints the whole set, to suit the stage; each type has a colour of its own otherwise.
+  color?: string;
+}
+
+/** Segments [from, to) where hazards of the given types may be placed, `density` per segment. */
+export interface ObstacleZone {
+  from: number;
+  to: number;
+  types: Obstacle['type'][];
+  density: number;
+}
+
+/** Alternating colors; index 0 is used for the darker bands. */
+export interface TrackPalette {
+  road: [string, string];
+  grass: [string, string];
+  rumble: [string, string];
+  lane: string;
+}
+
+export interface TrafficProfile {
+  density: number;
+  vehicles: number;
+  mix: Partial<Record<'sedan' | 'truck' | 'sports', number>>;
+  speed: [number, number];
+  // Share of vehicles in the oncoming lanes; without it every lane runs with the race.
+  oncoming?: number;
+}
+
+/** The JSON track file format. Segment indices count from the start line. */
+export interface TrackDefinition {
+  format: 'neural-rush-track';
+  version: 1;
+  name: string;
+  color: string;
+  palette: TrackPalette;
+  // Clear skies if left out.
+  weather?: WeatherKind;
+  // What is on the horizon, farthest first. Just mountains if left out.
+  backdrop?: BackdropLayer[];
+  traffic: TrafficProfile;
+  sections: TrackSection[];
+  scenery: SceneryRule[];
+  obstacles: ObstacleZone[];
+  checkpoints?: number[];
+}
+
 export interface Bounty {
   id: string;
   initiatorId: string;
@@ -95,6 +302,8 @@ export interface Bounty {
   condition: 'crash' | 'block' | 'finishBelow';
   acceptedBy: string[];
   status: 'active' | 'complete' | 'failed';
+  claimedBy?: string;
+  progress?: number; // seconds of blocking so far, for 'block' bounties
 }
 
 export interface EventLogEntry {
@@ -111,7 +320,140 @@ export interface RaceState {
   heatLevel: number;
   eventLog: EventLogEntry[];
   activeBounties: Bounty[];
+  // Pairs of racers riding together, keyed by allianceKey.
   allianceMap: Record<string, boolean>;
+  // A rival's offer waiting on the player's answer, with seconds left to give it.
+  allianceOffer?: { from: string; timer: number };
 }
 
-export type GamePhase = 'title' | 'raceIntro' | 'racing' | 'raceEnd' | 'shop' | 'gameOver' | 'victory';
+export interface RivalAction {
+  rivalId: string;
+  action: RivalActionType;
+  target?: string;
+  reasoning?: string;
+}
+
+/** A rival asking `target` to team up, or turning on the ally it has. */
+export interface AllianceAction {
+  rivalId: string;
+  action: 'propose' | 'break';
+  target: string;
+  reasoning?: string;
+}
+
+export interface EmotionalUpdate {
+  rivalId: string;
+  newState: EmotionalState;
+  intensityChange?: number;
+}
+
+export interface BountyResponse {
+  bountyId: string;
+  rivalId: string;
+  decision: 'accept' | 'decline';
+}
+
+export interface Commentary {
+  speaker: string;
+  text: string;
+}
+
+export interface PoliceAction {
+  active: boolean;
+  target?: string;
+  description?: string;
+}
+
+export interface DecisionResponse {
+  rivalActions?: RivalAction[];
+  allianceActions?: AllianceAction[];
+  emotionalUpdates?: EmotionalUpdate[];
+  bountyResponses?: BountyResponse[];
+  commentary?: Commentary;
+  policeAction?: PoliceAction;
+  positionChanges?: string[];
+}
+
+export interface RaceRecap {
+  headline: string;
+  summary: string;
+  eventHighlights: string[];
+  rivalQuotes: { rivalId: string; quote: string; mood: string }[];
+  forumBuzz: { user: string; text: string; upvotes: number }[];
+}
+
+/** One racer's clock: the time each checkpoint was crossed, the last one being the finish line. */
+export interface RacerTiming {
+  id: string;
+  splits: number[];
+  finishTime?: number;
+  // Set when the race ended before this racer reached the line and the time was projected.
+  estimated?: boolean;
+}
+
+/** A row of the results table, in finishing order. */
+export interface RaceResult {
+  position: number;
+  id: string;
+  name: string;
+  time: number;
+  gap: number;
+  estimated: boolean;
+}
+
+/** Seeded random source; next() is uniform in [0, 1). */
+export interface Rng {
+  next: () => number;
+  range: (min: number, max: number) => number;
+  chance: (p: number) => boolean;
+}
+
+export type GamePhase = 'title' | 'raceIntro' | 'racing' | 'raceEnd' | 'shop' | 'gameOver' | 'victory' | 'replay' | 'trialSelect' | 'recap' | 'history' | 'editor' | 'saves';
+
+// A time trial is the player alone on the stage: no rivals, traffic, bounties or police.
+// A test drive is an editor track with its traffic but without rivals, bounties or police.
+export type RaceMode = 'career' | 'timeTrial' | 'testDrive';
+
+/** Everything a race needs between calls to the simulation; owned by the simulation, read by the renderer. */
+export interface RaceSimulation {
+  seed: number;
+  rng: Rng;
+  mode: RaceMode;
+  // Index into STAGES, or -1 for a track that isn't one of them.
+  stageIndex: number;
+  stage: Stage;
+  segments: RoadSegment[];
+  player: Player;
+  opponents: Opponent[];
+  traffic: TrafficVehicle[];
+  obstacles: Obstacle[];
+  pickups: WeaponPickup[];
+  canisters: NitroCan[];
+  // The wreck that reaches this many ends a career run.
+  wreckLimit: number;
+  particles: Particle[];
+  race: RaceState;
+  tick: number;
+  // Race clock in seconds.
+  time: number;
+  timing: RacerTiming[];
+  cameraZ: number;
+  status: 'racing' | 'finished' | 'wrecked';
+}
+
+/** Controls for one simulation step. The bounty and alliance flags are one-shot presses, not held keys. */
+export interface RaceInput {
+  accelerate: boolean;
+  brake: boolean;
+  left: boolean;
+  right: boolean;
+  punchLeft: boolean;
+  punchRight: boolean;
+  postBounty: boolean;
+  acceptBounty: boolean;
+  kick: boolean;
+  block: boolean;
+  ally: boolean;
+  refuse: boolean;
+  nitro: boolean;
+}
@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.DECISION_ENGINE': JSON.stringify(env.DECISION_ENGINE),
+        'process.env.WRECK_LIMIT': JSON.stringify(env.WRECK_LIMIT)
       },
       resolve: {
         alias: {